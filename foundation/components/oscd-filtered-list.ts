@@ -17,6 +17,56 @@ function slotItem(item: Element): Element {
   return slotItem(item.parentElement);
 }
 
+/**
+ * @returns a case insensitive pattern for the search term `term`, which is
+ * either a regular expression enclosed in slashes or a text with `*` and `?`
+ * wildcards.
+ */
+function termPattern(term: string): RegExp {
+  const regExp = /^\/(.+)\/$/.exec(term);
+  if (regExp)
+    try {
+      return new RegExp(regExp[1], 'i');
+    } catch {
+      // invalid regular expressions are searched for literally
+    }
+
+  return new RegExp(
+    `*${term.replace(/[.+^${}()|[\]\\]/g, '\\$&')}*`
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.{1}'),
+    'i'
+  );
+}
+
+/**
+ * @returns whether `item` matches the search term `term`. Terms qualified as
+ * `key:value` are matched against the `data-key` attribute of `item` only,
+ * terms prefixed with `-` match items the rest of the term does not match.
+ */
+function matchesTerm(
+  item: ListItemBase,
+  filterTarget: string,
+  term: string
+): boolean {
+  if (term.startsWith('-') && term.length > 1)
+    return !matchesTerm(item, filterTarget, term.slice(1));
+
+  const qualified = /^([\w-]+):(.+)$/.exec(term);
+  if (qualified) {
+    // `config-version`, `configVersion` and `configversion` are all the same
+    const key = qualified[1].replace(/-/g, '').toLowerCase();
+    const values = Object.entries(item.dataset)
+      .filter(([name]) => name.toLowerCase() === key)
+      .map(([, value]) => value ?? '');
+    const pattern = termPattern(qualified[2]);
+    // terms with colons the item has no data attribute for are plain text
+    if (values.length > 0) return values.some(value => pattern.test(value));
+  }
+
+  return termPattern(term).test(filterTarget);
+}
+
 function hideFiltered(item: ListItemBase, searchText: string): void {
   const itemInnerText = `${item.innerText}\n`;
   const childInnerText = Array.from(item.children)
@@ -24,34 +74,42 @@ function hideFiltered(item: ListItemBase, searchText: string): void {
     .join('\n');
   const { value } = item;
 
-  const filterTarget: string = (
-    itemInnerText +
-    childInnerText +
-    value
-  ).toUpperCase();
+  const filterTarget: string = itemInnerText + childInnerText + value;
 
-  const terms: string[] = searchText
-    .toUpperCase()
-    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-    .trim()
-    .split(/\s+/g);
+  const terms: string[] = searchText.trim().split(/\s+/g);
 
   // eslint-disable-next-line no-unused-expressions
   (terms.length === 1 && terms[0] === '') ||
-  terms.every(term => {
-    // regexp escape
-    const reTerm = new RegExp(
-      `*${term}*`.replace(/\*/g, '.*').replace(/\?/g, '.{1}'),
-      'i'
-    );
-    return reTerm.test(filterTarget);
-  })
+  terms.every(term => matchesTerm(item, filterTarget, term))
     ? slotItem(item).classList.remove('hidden')
     : slotItem(item).classList.add('hidden');
 }
 
 /**
- * A mwc-list with mwc-textfield that filters the list items for given or separated terms
+ * Shows each non-interactive item heading the items up to the next one as
+ * long as any of those is shown, whether or not it matches the search text
+ * itself, and hides it otherwise.
+ */
+function hideEmptyHeadings(items: ListItemBase[]): void {
+  items.forEach((item, index) => {
+    if (!item.noninteractive) return;
+    const next = items.findIndex(
+      (other, otherIndex) => otherIndex > index && other.noninteractive
+    );
+    const group = items.slice(index + 1, next === -1 ? undefined : next);
+    if (group.length === 0) return;
+
+    if (group.some(member => !slotItem(member).classList.contains('hidden')))
+      slotItem(item).classList.remove('hidden');
+    else slotItem(item).classList.add('hidden');
+  });
+}
+
+/**
+ * A mwc-list with mwc-textfield that filters the list items for given or separated terms.
+ * Terms may be regular expressions enclosed in slashes, negated by a leading `-`
+ * or qualified as `key:value` to match the `data-key` attribute of the items only.
+ * Non-interactive items head the items following them and are shown along with these.
  */
 @customElement('oscd-filtered-list')
 export class OscdFilteredList extends ListBase {
@@ -97,13 +155,13 @@ export class OscdFilteredList extends ListBase {
   }
 
   onFilterInput(): void {
-    Array.from(
-      this.querySelectorAll(
+    const items = Array.from(
+      this.querySelectorAll<ListItemBase>(
         'mwc-list-item, mwc-check-list-item, mwc-radio-list-item'
       )
-    ).forEach(item =>
-      hideFiltered(item as ListItemBase, this.searchField.value)
     );
+    items.forEach(item => hideFiltered(item, this.searchField.value));
+    hideEmptyHeadings(items);
   }
 
   protected onListItemConnected(e: CustomEvent): void {
@@ -1,4 +1,5 @@
 import { findFCDAs, isSubscribed } from './subscription/subscription.js';
+import { isSCLTag, relatives, SCLTag } from './utils/scldata.js';
 
 /**
  * Extract the 'name' attribute from the given XML element.
@@ -112,3 +113,24 @@ export function minAvailableLogicalNodeInstance(
   const lnInsts = new Set(lnElements.map(ln => ln.getAttribute('inst') || ''));
   return lnInstRange.find(lnInst => !lnInsts.has(lnInst));
 }
+
+/**
+ * @param parent - The element a new child is to be inserted into.
+ * @param tag - The tag name of the new child.
+ * @returns the node before which the new child must be inserted to respect
+ * the child order of the SCL schema, or null to append it.
+ */
+export function getReference(parent: Element, tag: SCLTag): Element | null {
+  const parentTag = parent.tagName;
+  if (!isSCLTag(parentTag)) return null;
+
+  const sequence = relatives[parentTag].children;
+  const index = sequence.indexOf(tag);
+  if (index < 0) return null;
+
+  const successors = new Set<string>(sequence.slice(index + 1));
+  return (
+    Array.from(parent.children).find(child => successors.has(child.tagName)) ??
+    null
+  );
+}
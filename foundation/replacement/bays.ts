@@ -0,0 +1,36 @@
+/** IEDs placed in the same `Bay` of the Substation section. */
+export interface BayGroup {
+  /** The `Bay` whose `LNode` elements refer to the IEDs, null if none does. */
+  bay: Element | null;
+  ieds: Element[];
+}
+
+/**
+ * Groups `ieds` by the `Substation > VoltageLevel > Bay` whose `LNode`
+ * elements refer to them by `iedName`. IEDs referred to by several bays are
+ * placed in the first of them.
+ * @param doc - The document containing the Substation section.
+ * @param ieds - The IEDs to group.
+ * @returns the non-empty groups in document order of their bays, followed by
+ * the IEDs not placed in any bay.
+ */
+export function groupByBay(doc: XMLDocument, ieds: Element[]): BayGroup[] {
+  const bays = new Map<string, Element>();
+  doc
+    .querySelectorAll(
+      ':root > Substation > VoltageLevel > Bay LNode[iedName]:not([iedName="None"])'
+    )
+    .forEach(lNode => {
+      const iedName = lNode.getAttribute('iedName')!;
+      if (!lNode.closest('Private') && !bays.has(iedName))
+        bays.set(iedName, lNode.closest('Bay')!);
+    });
+
+  const bayOf = (ied: Element) => bays.get(ied.getAttribute('name') ?? '');
+  const groups: BayGroup[] = Array.from(
+    doc.querySelectorAll(':root > Substation > VoltageLevel > Bay')
+  ).map(bay => ({ bay, ieds: ieds.filter(ied => bayOf(ied) === bay) }));
+  groups.push({ bay: null, ieds: ieds.filter(ied => !bayOf(ied)) });
+
+  return groups.filter(group => group.ieds.length > 0);
+}
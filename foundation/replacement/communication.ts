@@ -0,0 +1,314 @@
+import { Insert, Remove, Update } from '@openscd/open-scd-core';
+
+import { getReference } from '../foundation.js';
+import { SCL_NAMESPACE } from '../subscription/subscription.js';
+import type { ReplacementReport } from './report.js';
+
+type ControlBlockTag = 'GSE' | 'SMV';
+
+const controlTags: Record<ControlBlockTag, string> = {
+  GSE: 'GSEControl',
+  SMV: 'SampledValueControl',
+};
+
+function connectedAPs(doc: Document, iedName: string): Element[] {
+  return Array.from(
+    doc.querySelectorAll(
+      `:root > Communication > SubNetwork > ConnectedAP[iedName="${iedName}"]`
+    )
+  );
+}
+
+function controlBlockPath(control: Element): [string, string] {
+  return [
+    control.closest('LDevice')?.getAttribute('inst') ?? '',
+    control.getAttribute('name') ?? '',
+  ];
+}
+
+function addresses(block: Element, control: Element): boolean {
+  const [ldInst, cbName] = controlBlockPath(control);
+  return (
+    block.getAttribute('ldInst') === ldInst &&
+    block.getAttribute('cbName') === cbName
+  );
+}
+
+/**
+ * Creates a `GSE` or `SMV` element without address for `control`, copying
+ * all but the `Address` of the template's equivalent element if available.
+ */
+function createControlBlock(
+  doc: Document,
+  tag: ControlBlockTag,
+  control: Element,
+  templateBlock: Element | undefined
+): Element {
+  const [ldInst, cbName] = controlBlockPath(control);
+  const block = doc.createElementNS(SCL_NAMESPACE, tag);
+  block.setAttribute('ldInst', ldInst);
+  block.setAttribute('cbName', cbName);
+
+  Array.from(templateBlock?.children ?? [])
+    .filter(child => child.tagName !== 'Address')
+    .forEach(child => block.appendChild(doc.importNode(child, true)));
+
+  return block;
+}
+
+/** @returns the control block within `ied` addressed by `block` if any. */
+function addressedControl(ied: Element, block: Element): Element | null {
+  const [ldInst, cbName] = ['ldInst', 'cbName'].map(name =>
+    block.getAttribute(name)
+  );
+  return ied.querySelector(
+    `:scope > AccessPoint > Server > LDevice[inst="${ldInst}"] > LN0 > ${
+      controlTags[<ControlBlockTag>block.tagName]
+    }[name="${cbName}"]`
+  );
+}
+
+/** Whether two control blocks publish the same data under another name. */
+export function equivalentControls(
+  oldControl: Element,
+  newControl: Element
+): boolean {
+  const id = oldControl.tagName === 'GSEControl' ? 'appID' : 'smvID';
+  return (
+    (oldControl.hasAttribute(id) &&
+      oldControl.getAttribute(id) === newControl.getAttribute(id)) ||
+    (oldControl.hasAttribute('datSet') &&
+      oldControl.getAttribute('datSet') === newControl.getAttribute('datSet'))
+  );
+}
+
+/** @returns a description of the `P` values of `element`'s `Address`. */
+function describeAddress(element: Element): string {
+  return Array.from(element.querySelectorAll(':scope > Address > P'))
+    .map(p => `${p.getAttribute('type')} ${p.textContent?.trim()}`)
+    .join(', ');
+}
+
+/**
+ * Matches the `GSE` or `SMV` elements of the replaced IED to the control
+ * blocks of the new IED, first by `ldInst` and `cbName`, then by the control
+ * block they used to address having the same `appID`/`smvID` or `datSet`.
+ * @returns the matched element for each matched control block.
+ */
+function matchControlBlocks(
+  blocks: Element[],
+  controls: Element[],
+  oldIed: Element
+): Map<Element, Element> {
+  const matches = new Map<Element, Element>();
+  const rules: ((block: Element, control: Element) => boolean)[] = [
+    addresses,
+    (block, control) => {
+      const oldControl = addressedControl(oldIed, block);
+      return !!oldControl && equivalentControls(oldControl, control);
+    },
+  ];
+
+  rules.forEach(rule =>
+    controls
+      .filter(control => !matches.has(control))
+      .forEach(control => {
+        const matched = Array.from(matches.values());
+        const block = blocks.find(
+          candidate => !matched.includes(candidate) && rule(candidate, control)
+        );
+        if (block) matches.set(control, block);
+      })
+  );
+
+  return matches;
+}
+
+/**
+ * Plans the `GSE` and `SMV` elements of `connectedAP` to match the control
+ * blocks of access point `apName` within `newIed`. Elements matched to a
+ * control block carry their address over to it and are re-mapped onto it if
+ * necessary. Control blocks without a match are given a new element without
+ * address and unmatched elements are removed, both are reported.
+ */
+function planControlBlocks(
+  connectedAP: Element,
+  apName: string,
+  oldIed: Element,
+  newIed: Element,
+  templateAP: Element | undefined,
+  report: ReplacementReport
+): { updates: (Insert | Update)[]; removes: Remove[] } {
+  const updates: (Insert | Update)[] = [];
+  const removes: Remove[] = [];
+
+  (<ControlBlockTag[]>['GSE', 'SMV']).forEach(tag => {
+    const blocks = Array.from(connectedAP.querySelectorAll(`:scope > ${tag}`));
+    const controls = Array.from(
+      newIed.querySelectorAll(
+        `:scope > AccessPoint[name="${apName}"] > Server > LDevice > LN0 > ${controlTags[tag]}`
+      )
+    );
+    const matches = matchControlBlocks(blocks, controls, oldIed);
+
+    controls.forEach(control => {
+      const [ldInst, cbName] = controlBlockPath(control);
+      const block = matches.get(control);
+      if (block) {
+        if (!addresses(block, control)) {
+          updates.push({ element: block, attributes: { ldInst, cbName } });
+          report.remapped.push(
+            `${tag} ${block.getAttribute('ldInst')} ${block.getAttribute(
+              'cbName'
+            )} on ${apName} to ${ldInst} ${cbName}`
+          );
+        }
+        return;
+      }
+
+      const templateBlock = Array.from(
+        templateAP?.querySelectorAll(`:scope > ${tag}`) ?? []
+      ).find(candidate => addresses(candidate, control));
+      updates.push({
+        parent: connectedAP,
+        node: createControlBlock(
+          connectedAP.ownerDocument,
+          tag,
+          control,
+          templateBlock
+        ),
+        reference: getReference(connectedAP, tag),
+      });
+      report.warnings.push(
+        `${tag} ${ldInst} ${cbName} on ${apName} has no address to transfer and must be addressed`
+      );
+    });
+
+    const matched = Array.from(matches.values());
+    blocks
+      .filter(block => !matched.includes(block))
+      .forEach(block => {
+        removes.push({ node: block });
+        const address = describeAddress(block);
+        report.warnings.push(
+          `${tag} ${block.getAttribute('ldInst')} ${block.getAttribute(
+            'cbName'
+          )} on ${apName} matches no control block and is removed${
+            address ? ` with its address ${address}` : ''
+          }`
+        );
+      });
+  });
+
+  return { updates, removes };
+}
+
+/**
+ * Plans the update of the Communication section for `newIed` replacing
+ * `oldIed`. The replaced IED's `ConnectedAP` elements and their addresses
+ * are kept but re-mapped onto the access points of `newIed`, matching by name
+ * first and then in order. Their `GSE` and `SMV` elements are re-mapped onto
+ * the matching control blocks of `newIed`.
+ * @param doc - The document containing the Communication section.
+ * @param oldIed - The IED being replaced.
+ * @param newIed - The not yet inserted replacement IED.
+ * @param templateIed - The IED `newIed` is a copy of.
+ * @param report - Collects addresses which could not be transferred and
+ * control blocks left without address as the replaced IED has no
+ * `ConnectedAP`.
+ * @returns the edits updating the Communication section. Removals come last
+ * so that the references of the insertions remain valid.
+ */
+export function planCommunicationUpdate(
+  doc: XMLDocument,
+  oldIed: Element,
+  newIed: Element,
+  templateIed: Element,
+  report: ReplacementReport
+): (Insert | Update | Remove)[] {
+  const iedName = newIed.getAttribute('name') ?? '';
+  const apNames = Array.from(newIed.querySelectorAll(':scope > AccessPoint'))
+    .map(accessPoint => accessPoint.getAttribute('name') ?? '')
+    .filter(apName => apName);
+
+  const templateAPs = connectedAPs(
+    templateIed.ownerDocument,
+    templateIed.getAttribute('name') ?? ''
+  );
+
+  const oldAPs = connectedAPs(doc, iedName);
+  if (oldAPs.length === 0) {
+    const controls = Array.from(
+      newIed.querySelectorAll(
+        ':scope > AccessPoint > Server > LDevice > LN0 > GSEControl, :scope > AccessPoint > Server > LDevice > LN0 > SampledValueControl'
+      )
+    );
+    if (controls.length > 0)
+      report.warnings.push(
+        `${iedName} is connected to no SubNetwork, its control blocks ${controls
+          .map(control => control.getAttribute('name'))
+          .join(', ')} have no GSE or SMV address`
+      );
+    return [];
+  }
+
+  const keptAPs = oldAPs.filter(connectedAP =>
+    apNames.includes(connectedAP.getAttribute('apName') ?? '')
+  );
+  const freeApNames = apNames.filter(
+    apName =>
+      !keptAPs.some(
+        connectedAP => connectedAP.getAttribute('apName') === apName
+      )
+  );
+
+  const updates: (Insert | Update)[] = [];
+  const removes: Remove[] = [];
+
+  const newApNames = new Map<Element, string>(
+    keptAPs.map(connectedAP => [
+      connectedAP,
+      connectedAP.getAttribute('apName')!,
+    ])
+  );
+  oldAPs
+    .filter(connectedAP => !keptAPs.includes(connectedAP))
+    .forEach((connectedAP, index) => {
+      const apName = freeApNames[index];
+      if (!apName) {
+        removes.push({ node: connectedAP });
+        const address = describeAddress(connectedAP);
+        report.warnings.push(
+          `ConnectedAP ${connectedAP.getAttribute(
+            'apName'
+          )} matches no access point and is removed${
+            address ? ` with its address ${address}` : ''
+          }`
+        );
+        return;
+      }
+      newApNames.set(connectedAP, apName);
+      updates.push({ element: connectedAP, attributes: { apName } });
+      report.remapped.push(
+        `ConnectedAP ${connectedAP.getAttribute('apName')} to ${apName}`
+      );
+    });
+
+  newApNames.forEach((apName, connectedAP) => {
+    const templateAP = templateAPs.find(
+      candidate => candidate.getAttribute('apName') === apName
+    );
+    const blockEdits = planControlBlocks(
+      connectedAP,
+      apName,
+      oldIed,
+      newIed,
+      templateAP,
+      report
+    );
+    updates.push(...blockEdits.updates);
+    removes.push(...blockEdits.removes);
+  });
+
+  return [...updates, ...removes];
+}
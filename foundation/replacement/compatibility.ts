@@ -0,0 +1,127 @@
+/**
+ * How the data model of a template IED relates to that of a target IED:
+ * - `identical`: both offer exactly the same data
+ * - `superset`: the template offers all of the target's data and more
+ * - `subset`: the target offers data the template does not
+ * - `incompatible`: each offers data the other does not
+ */
+export type Compatibility =
+  | 'identical'
+  | 'superset'
+  | 'subset'
+  | 'incompatible';
+
+/**
+ * @returns the paths of all data defined by the type `typeId` below `path`,
+ * each data attribute along with its functional constraint and basic type.
+ */
+function typePaths(
+  templates: Element,
+  typeId: string,
+  path: string,
+  visited: string[] = []
+): string[] {
+  // guards against malformed templates whose types contain themselves
+  if (visited.includes(typeId)) return [];
+
+  const type = templates.querySelector(
+    `:scope > LNodeType[id="${typeId}"], :scope > DOType[id="${typeId}"], :scope > DAType[id="${typeId}"]`
+  );
+  if (!type) return [];
+
+  return Array.from(
+    type.querySelectorAll(
+      ':scope > DO, :scope > SDO, :scope > DA, :scope > BDA'
+    )
+  ).flatMap(definition => {
+    const definitionPath = `${path}.${definition.getAttribute('name')}`;
+    const bType = definition.getAttribute('bType');
+    const entry = [definitionPath, definition.getAttribute('fc'), bType]
+      .filter(part => part)
+      .join(' ');
+    const subTypeId = definition.getAttribute('type');
+
+    return [
+      entry,
+      ...(subTypeId && (!bType || bType === 'Struct')
+        ? typePaths(templates, subTypeId, definitionPath, [...visited, typeId])
+        : []),
+    ];
+  });
+}
+
+/**
+ * @returns the paths of every logical device, logical node, data object and
+ * data attribute of `ied`, identified by `LDevice` `inst`, `LN` `prefix`,
+ * `lnClass` and `inst` and the names along the `DataTypeTemplates`.
+ */
+export function dataModel(ied: Element): Set<string> {
+  const templates = ied.ownerDocument.querySelector(
+    ':root > DataTypeTemplates'
+  );
+  const lnTypePaths = new Map<string, string[]>();
+
+  const paths = Array.from(
+    ied.querySelectorAll(':scope > AccessPoint > Server > LDevice')
+  ).flatMap(lDevice => {
+    const ldPath = `${lDevice.getAttribute('inst')}/`;
+
+    return [
+      ldPath,
+      ...Array.from(
+        lDevice.querySelectorAll(':scope > LN0, :scope > LN')
+      ).flatMap(anyLn => {
+        const lnPath = `${ldPath}${['prefix', 'lnClass', 'inst']
+          .map(name => anyLn.getAttribute(name) ?? '')
+          .join(' ')}`;
+        const lnType = anyLn.getAttribute('lnType') ?? '';
+        if (!lnTypePaths.has(lnType))
+          lnTypePaths.set(
+            lnType,
+            templates ? typePaths(templates, lnType, '') : []
+          );
+
+        return [
+          lnPath,
+          ...lnTypePaths.get(lnType)!.map(typePath => `${lnPath}${typePath}`),
+        ];
+      }),
+    ];
+  });
+
+  return new Set(paths);
+}
+
+/**
+ * Compares two data models as returned by [[`dataModel`]].
+ * @param template - The data model of the template IED.
+ * @param target - The data model of the IED to be replaced.
+ * @returns the [[`Compatibility`]] of the template as replacement.
+ */
+export function compareModels(
+  template: Set<string>,
+  target: Set<string>
+): Compatibility {
+  const hasAllOfTarget = Array.from(target).every(path => template.has(path));
+  const hasOnlyTarget = Array.from(template).every(path => target.has(path));
+
+  if (hasAllOfTarget && hasOnlyTarget) return 'identical';
+  if (hasAllOfTarget) return 'superset';
+  if (hasOnlyTarget) return 'subset';
+  return 'incompatible';
+}
+
+/**
+ * Compares the data models of `templateIed` and `targetIed` by their logical
+ * devices, logical nodes and the data object and data attribute trees of the
+ * logical nodes' types.
+ * @param templateIed - The IED to replace `targetIed` with.
+ * @param targetIed - The IED to be replaced.
+ * @returns the [[`Compatibility`]] of `templateIed` as replacement.
+ */
+export function compareDataModels(
+  templateIed: Element,
+  targetIed: Element
+): Compatibility {
+  return compareModels(dataModel(templateIed), dataModel(targetIed));
+}
@@ -0,0 +1,64 @@
+/**
+ * Resolves a data path of a logical node through its `DataTypeTemplates`.
+ * @param doc - The document holding the `DataTypeTemplates`.
+ * @param anyLn - The `LN` or `LN0` element whose `lnType` is resolved.
+ * @param names - The DO, SDO, DA and BDA names along the path.
+ * @returns the `DO`, `SDO`, `DA` or `BDA` element defining the last of the
+ * `names` or null if the path does not exist.
+ */
+export function dataTypeDefinition(
+  doc: Document,
+  anyLn: Element,
+  names: string[]
+): Element | null {
+  const templates = doc.querySelector(':root > DataTypeTemplates');
+  if (!templates) return null;
+
+  let type = templates.querySelector(
+    `:scope > LNodeType[id="${anyLn.getAttribute('lnType')}"]`
+  );
+  let definition: Element | null = null;
+
+  const resolved = names.every(name => {
+    definition =
+      type?.querySelector(
+        `:scope > DO[name="${name}"], :scope > SDO[name="${name}"], :scope > DA[name="${name}"], :scope > BDA[name="${name}"]`
+      ) ?? null;
+    if (!definition) return false;
+
+    const typeId = definition.getAttribute('type');
+    type = typeId
+      ? templates.querySelector(
+          `:scope > DOType[id="${typeId}"], :scope > DAType[id="${typeId}"]`
+        )
+      : null;
+    return true;
+  });
+
+  return resolved ? definition : null;
+}
+
+/**
+ * @returns the IEC 61850 object reference of `element` within its IED,
+ * without the IED name, e.g. `CTRL/CSWI1.Pos.ctlModel`.
+ */
+export function dataReference(element: Element): string {
+  const ldInst = element.closest('LDevice')?.getAttribute('inst') ?? '';
+  const anyLn = element.closest('LN0, LN');
+  const lnName = anyLn
+    ? ['prefix', 'lnClass', 'inst']
+        .map(name => anyLn.getAttribute(name) ?? '')
+        .join('')
+    : '';
+
+  const names: string[] = [];
+  let current: Element | null = element;
+  while (current && current !== anyLn && current.tagName !== 'LDevice') {
+    const name = current.getAttribute('name');
+    const ix = current.getAttribute('ix');
+    if (name) names.unshift(ix ? `${name}(${ix})` : name);
+    current = current.parentElement;
+  }
+
+  return `${ldInst}/${[lnName, ...names].join('.')}`;
+}
@@ -0,0 +1,256 @@
+import { Insert, Remove } from '@openscd/open-scd-core';
+
+import { getReference } from '../foundation.js';
+import { SCL_NAMESPACE } from '../subscription/subscription.js';
+import { SCLTag } from '../utils/scldata.js';
+
+/** The data type tags in the order of the `DataTypeTemplates` sequence. */
+const typeTags = ['LNodeType', 'DOType', 'DAType', 'EnumType'];
+
+/** @returns the ids of the data types `type` refers to. */
+function referencedTypes(type: Element): string[] {
+  return Array.from(
+    type.querySelectorAll(
+      ':scope > DO, :scope > SDO, :scope > DA, :scope > BDA'
+    )
+  )
+    .map(child => child.getAttribute('type'))
+    .filter((id): id is string => !!id);
+}
+
+/**
+ * Whether `a` and `b` have the same tag name, attributes and content,
+ * ignoring whitespace between elements and, if `ignoreId`, their own `id`.
+ */
+export function sameContent(a: Element, b: Element, ignoreId = false): boolean {
+  if (a.tagName !== b.tagName) return false;
+
+  const attributes = (element: Element) =>
+    Array.from(element.attributes)
+      .filter(attribute => !ignoreId || attribute.name !== 'id')
+      .map(attribute => `${attribute.name}=${attribute.value}`)
+      .sort();
+  const [aAttributes, bAttributes] = [a, b].map(attributes);
+  if (aAttributes.join(' ') !== bAttributes.join(' ')) return false;
+
+  if (a.children.length === 0 && b.children.length === 0)
+    return a.textContent?.trim() === b.textContent?.trim();
+
+  return (
+    a.children.length === b.children.length &&
+    Array.from(a.children).every((child, index) =>
+      sameContent(child, b.children[index])
+    )
+  );
+}
+
+/**
+ * @returns the data types of `templates` needed by the logical nodes of
+ * `ied`, each after those it refers to.
+ */
+function neededTypes(templates: Element, ied: Element): Element[] {
+  const needed: Element[] = [];
+
+  function visit(id: string): void {
+    const type = Array.from(templates.children).find(
+      child =>
+        typeTags.includes(child.tagName) && child.getAttribute('id') === id
+    );
+    if (!type || needed.includes(type)) return;
+
+    referencedTypes(type).forEach(visit);
+    needed.push(type);
+  }
+
+  Array.from(ied.querySelectorAll('LN0, LN'))
+    .map(anyLn => anyLn.getAttribute('lnType'))
+    .filter((id): id is string => !!id)
+    .forEach(visit);
+
+  return needed;
+}
+
+/** @returns `id` or, if taken, `id` followed by the lowest free number. */
+function uniqueId(id: string, taken: string[]): string {
+  if (!taken.includes(id)) return id;
+  let counter = 1;
+  while (taken.includes(`${id}_${counter}`)) counter += 1;
+  return `${id}_${counter}`;
+}
+
+export interface DataTypeImport {
+  /** The `id` in the document of each imported data type. */
+  ids: Map<string, string>;
+  /** The data types added to the document. */
+  added: Element[];
+}
+
+/**
+ * Plans adding the data types `types` to the `DataTypeTemplates` of `doc`,
+ * creating the `DataTypeTemplates` if missing.
+ * @param doc - The document to add to.
+ * @param types - Data types not yet part of `doc`.
+ * @returns the edits inserting the types in sequence order, so that the
+ * references between them stay valid.
+ */
+export function planDataTypeInsertion(
+  doc: XMLDocument,
+  types: Element[]
+): Insert[] {
+  const sortedTypes = typeTags.flatMap(tag =>
+    types.filter(type => type.tagName === tag)
+  );
+  if (sortedTypes.length === 0) return [];
+
+  const existingTemplates = doc.querySelector(':root > DataTypeTemplates');
+  if (existingTemplates)
+    return sortedTypes.map(type => ({
+      parent: existingTemplates,
+      node: type,
+      reference: getReference(existingTemplates, <SCLTag>type.tagName),
+    }));
+
+  const templates = doc.createElementNS(SCL_NAMESPACE, 'DataTypeTemplates');
+  sortedTypes.forEach(type => templates.appendChild(type));
+  return [
+    {
+      parent: doc.documentElement,
+      node: templates,
+      reference: getReference(doc.documentElement, 'DataTypeTemplates'),
+    },
+  ];
+}
+
+/**
+ * Plans the import of the data types the logical nodes of `ied` need from
+ * its own document into `doc`. Types already present with the same content
+ * are reused, even under another `id`. Others are added, renamed if their
+ * `id` is already taken in `doc`.
+ * @param doc - The document to import into.
+ * @param ied - An IED of another document.
+ * @param plannedTypes - Types added by imports planned before, which are
+ * reused and whose `id` is taken likewise.
+ * @returns the `id` under which each of the needed types is found in `doc`
+ * and the types to add, which is left to the caller, see
+ * [[`planDataTypeInsertion`]].
+ */
+export function planDataTypeImport(
+  doc: XMLDocument,
+  ied: Element,
+  plannedTypes: Element[] = []
+): DataTypeImport {
+  const typeImport: DataTypeImport = { ids: new Map(), added: [] };
+  const sourceTemplates = ied.ownerDocument.querySelector(
+    ':root > DataTypeTemplates'
+  );
+  if (!sourceTemplates) return typeImport;
+
+  const existingTypes = [
+    ...Array.from(doc.querySelectorAll(':root > DataTypeTemplates > *')).filter(
+      child => typeTags.includes(child.tagName)
+    ),
+    ...plannedTypes,
+  ];
+  const takenIds = existingTypes.map(type => type.getAttribute('id') ?? '');
+
+  neededTypes(sourceTemplates, ied).forEach(type => {
+    const id = type.getAttribute('id')!;
+    const copy = <Element>doc.importNode(type, true);
+    copy
+      .querySelectorAll(':scope > DO, :scope > SDO, :scope > DA, :scope > BDA')
+      .forEach(child => {
+        const typeId = typeImport.ids.get(child.getAttribute('type') ?? '');
+        if (typeId) child.setAttribute('type', typeId);
+      });
+
+    const existing =
+      existingTypes.find(
+        candidate =>
+          candidate.getAttribute('id') === id && sameContent(candidate, copy)
+      ) ?? existingTypes.find(candidate => sameContent(candidate, copy, true));
+    if (existing) {
+      typeImport.ids.set(id, existing.getAttribute('id')!);
+      return;
+    }
+
+    const newId = uniqueId(id, takenIds);
+    copy.setAttribute('id', newId);
+    takenIds.push(newId);
+    typeImport.ids.set(id, newId);
+    typeImport.added.push(copy);
+  });
+
+  return typeImport;
+}
+
+/**
+ * @returns the ids of the data types among `types` which `nodes`, logical
+ * nodes or `LNode` elements, refer to, directly or through other types.
+ */
+function usedTypeIds(nodes: Element[], types: Element[]): Set<string> {
+  const used = new Set<string>();
+
+  function visit(id: string): void {
+    if (used.has(id)) return;
+    used.add(id);
+    const type = types.find(candidate => candidate.getAttribute('id') === id);
+    if (type) referencedTypes(type).forEach(visit);
+  }
+
+  nodes
+    .map(node => node.getAttribute('lnType'))
+    .filter((id): id is string => !!id)
+    .forEach(visit);
+
+  return used;
+}
+
+/** @returns the logical nodes of `ieds`. */
+function logicalNodes(ieds: Element[]): Element[] {
+  return ieds.flatMap(ied => Array.from(ied.querySelectorAll('LN0, LN')));
+}
+
+/**
+ * Plans the removal of the data types of `doc` used by `oldIeds` but by none
+ * of the IEDs remaining after their replacement with `newIeds` and by no
+ * `LNode` of the Substation section.
+ * @param doc - The document containing `oldIeds`.
+ * @param oldIeds - The IEDs being replaced.
+ * @param newIeds - The not yet inserted IEDs replacing them.
+ * @param addedTypes - Data types about to be added to the document.
+ * @returns the edits removing the data types no longer used.
+ */
+export function planDataTypeRemoval(
+  doc: XMLDocument,
+  oldIeds: Element[],
+  newIeds: Element[],
+  addedTypes: Element[] = []
+): Remove[] {
+  const types = Array.from(
+    doc.querySelectorAll(':root > DataTypeTemplates > *')
+  ).filter(type => typeTags.includes(type.tagName));
+  const allTypes = [...types, ...addedTypes];
+
+  const previouslyUsed = usedTypeIds(logicalNodes(oldIeds), allTypes);
+  const stillUsed = usedTypeIds(
+    [
+      ...logicalNodes([
+        ...Array.from(doc.querySelectorAll(':root > IED')).filter(
+          ied => !oldIeds.includes(ied)
+        ),
+        ...newIeds,
+      ]),
+      ...Array.from(doc.querySelectorAll(':root > Substation LNode')).filter(
+        lNode => !lNode.closest('Private')
+      ),
+    ],
+    allTypes
+  );
+
+  return types
+    .filter(type => {
+      const id = type.getAttribute('id') ?? '';
+      return previouslyUsed.has(id) && !stillUsed.has(id);
+    })
+    .map(type => ({ node: type }));
+}
@@ -0,0 +1,126 @@
+import { identity } from '../identities/identity.js';
+import { sameContent } from './datatypes.js';
+
+/** How an element of the template differs from the target IED. */
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface AttributeDiff {
+  name: string;
+  /** The value within the template, null if missing. */
+  template: string | null;
+  /** The value within the target IED, null if missing. */
+  target: string | null;
+}
+
+export interface DiffEntry {
+  tag: string;
+  /** The `identity` of the element within its IED, without the IED name. */
+  path: string;
+  /**
+   * `added` if only the template has the element, `removed` if only the
+   * target has it or `changed` if their attributes or content differ.
+   */
+  kind: DiffKind;
+  /** The attributes which differ, empty unless `changed`. */
+  attributes: AttributeDiff[];
+}
+
+/** The elements aligned between both IEDs, in their order of comparison. */
+const diffTags = [
+  'LDevice',
+  'LN0',
+  'LN',
+  'DataSet',
+  'GSEControl',
+  'ReportControl',
+  'SampledValueControl',
+  'LogControl',
+  'DOI',
+];
+
+/** @returns the elements of `ied` to compare, by their path within `ied`. */
+function alignedElements(ied: Element): Map<string, Element> {
+  const iedIdentity = String(identity(ied));
+  return new Map(
+    Array.from(ied.querySelectorAll(diffTags.join(', ')))
+      .filter(element => !element.closest('Private'))
+      .map(element => [
+        `${element.tagName} ${String(identity(element)).slice(
+          iedIdentity.length
+        )}`,
+        element,
+      ])
+  );
+}
+
+function attributeDiffs(template: Element, target: Element): AttributeDiff[] {
+  const names = new Set(
+    [...Array.from(template.attributes), ...Array.from(target.attributes)].map(
+      attribute => attribute.name
+    )
+  );
+  return Array.from(names)
+    .map(name => ({
+      name,
+      template: template.getAttribute(name),
+      target: target.getAttribute(name),
+    }))
+    .filter(diff => diff.template !== diff.target);
+}
+
+/**
+ * Compares the structure of `templateIed` with that of `targetIed`, aligning
+ * their logical devices, logical nodes, data sets, control blocks and `DOI`
+ * elements by `identity`.
+ * @param templateIed - The IED to replace `targetIed` with.
+ * @param targetIed - The IED to be replaced.
+ * @returns an entry for each element only one of the IEDs has or which
+ * differs between both, in document order of the template and then of the
+ * target.
+ */
+export function diffIeds(
+  templateIed: Element,
+  targetIed: Element
+): DiffEntry[] {
+  const templateElements = alignedElements(templateIed);
+  const targetElements = alignedElements(targetIed);
+
+  const entries: DiffEntry[] = [];
+  templateElements.forEach((template, key) => {
+    const target = targetElements.get(key);
+    const path = key.slice(template.tagName.length + 1);
+    if (!target) {
+      entries.push({
+        tag: template.tagName,
+        path,
+        kind: 'added',
+        attributes: [],
+      });
+      return;
+    }
+
+    const attributes = attributeDiffs(template, target);
+    // nested elements are either aligned themselves or part of the content
+    const contentDiffers =
+      ['DataSet', 'DOI'].includes(template.tagName) &&
+      !sameContent(template, target);
+    if (attributes.length > 0 || contentDiffers)
+      entries.push({
+        tag: template.tagName,
+        path,
+        kind: 'changed',
+        attributes,
+      });
+  });
+  targetElements.forEach((target, key) => {
+    if (!templateElements.has(key))
+      entries.push({
+        tag: target.tagName,
+        path: key.slice(target.tagName.length + 1),
+        kind: 'removed',
+        attributes: [],
+      });
+  });
+
+  return entries;
+}
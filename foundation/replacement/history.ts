@@ -0,0 +1,61 @@
+import { Insert } from '@openscd/open-scd-core';
+
+import { getReference } from '../foundation.js';
+import { SCL_NAMESPACE } from '../subscription/subscription.js';
+
+/** The user provided parts of a `Hitem` recording a replacement. */
+export interface HistoryEntry {
+  /** Who made the change. */
+  who: string;
+  /** Why the change was made. */
+  why: string;
+}
+
+/** The `version` and `revision` of a `Hitem` whose `Header` has none. */
+const defaultVersion = '1';
+const defaultRevision = 'A';
+
+/**
+ * Plans appending a `Hitem` to the `History` of the `Header` of `doc`,
+ * creating the `History` if missing. The `Hitem` takes the `version` and
+ * `revision` of the `Header`, `1` and `A` if missing, and the current time.
+ * @param doc - The document whose history to extend.
+ * @param what - What was changed.
+ * @param entry - Who made the change and why, both left out if empty.
+ * @returns the edit inserting the `Hitem` or none if `doc` has no `Header`.
+ */
+export function planHistoryItem(
+  doc: XMLDocument,
+  what: string,
+  entry: HistoryEntry
+): Insert[] {
+  const header = doc.querySelector(':root > Header');
+  if (!header) return [];
+
+  const hitem = doc.createElementNS(SCL_NAMESPACE, 'Hitem');
+  hitem.setAttribute(
+    'version',
+    header.getAttribute('version') || defaultVersion
+  );
+  hitem.setAttribute(
+    'revision',
+    header.getAttribute('revision') || defaultRevision
+  );
+  hitem.setAttribute('when', new Date().toISOString());
+  if (entry.who) hitem.setAttribute('who', entry.who);
+  hitem.setAttribute('what', what);
+  if (entry.why) hitem.setAttribute('why', entry.why);
+
+  const history = header.querySelector(':scope > History');
+  if (history) return [{ parent: history, node: hitem, reference: null }];
+
+  const newHistory = doc.createElementNS(SCL_NAMESPACE, 'History');
+  newHistory.appendChild(hitem);
+  return [
+    {
+      parent: header,
+      node: newHistory,
+      reference: getReference(header, 'History'),
+    },
+  ];
+}
@@ -0,0 +1,160 @@
+import { findControlBlocks } from '../foundation.js';
+import { identity } from '../identities/identity.js';
+import { findFCDAs, isSubscribed } from '../subscription/subscription.js';
+import { referencedAnyLn } from './lnodes.js';
+import { structureElements, structurePath } from './mapping.js';
+
+/** A reference within the document which does not resolve. */
+export interface IntegrityIssue {
+  /** The element holding the reference. */
+  element: Element;
+  /** A description of the problem. */
+  message: string;
+}
+
+const controlTags: Record<string, string> = {
+  GSE: 'GSEControl',
+  SMV: 'SampledValueControl',
+};
+
+function describe(element: Element): string {
+  return `${element.tagName} ${identity(element)}`;
+}
+
+function findIed(doc: XMLDocument, name: string | null): Element | null {
+  return doc.querySelector(`:root > IED[name="${name}"]`);
+}
+
+function checkExtRef(doc: XMLDocument, extRef: Element): string[] {
+  const iedName = extRef.getAttribute('iedName');
+  if (!findIed(doc, iedName)) return [`refers to the unknown IED ${iedName}`];
+
+  const problems: string[] = [];
+  const serviceType = extRef.getAttribute('serviceType');
+  // internal references of an IED to its own data need no data set
+  const isInternal =
+    !serviceType && iedName === extRef.closest('IED')?.getAttribute('name');
+  if (!isInternal && serviceType !== 'Poll' && findFCDAs(extRef).length === 0)
+    problems.push('refers to data no data set of its IED contains');
+  if (
+    extRef.hasAttribute('srcCBName') &&
+    (serviceType === 'GOOSE' || serviceType === 'SMV') &&
+    findControlBlocks(extRef, serviceType).length === 0
+  )
+    problems.push(
+      `refers to the unknown control block ${extRef.getAttribute('srcCBName')}`
+    );
+  return problems;
+}
+
+function checkConnectedAP(doc: XMLDocument, connectedAP: Element): string[] {
+  const [iedName, apName] = ['iedName', 'apName'].map(name =>
+    connectedAP.getAttribute(name)
+  );
+  const ied = findIed(doc, iedName);
+  if (!ied) return [`refers to the unknown IED ${iedName}`];
+  if (!ied.querySelector(`:scope > AccessPoint[name="${apName}"]`))
+    return [`refers to the unknown access point ${apName} of ${iedName}`];
+  return [];
+}
+
+function checkControlBlock(doc: XMLDocument, block: Element): string[] {
+  const connectedAP = block.parentElement!;
+  const [iedName, apName] = ['iedName', 'apName'].map(name =>
+    connectedAP.getAttribute(name)
+  );
+  const [ldInst, cbName] = ['ldInst', 'cbName'].map(name =>
+    block.getAttribute(name)
+  );
+  const control = findIed(doc, iedName)?.querySelector(
+    `:scope > AccessPoint[name="${apName}"] > Server > LDevice[inst="${ldInst}"] > LN0 > ${
+      controlTags[block.tagName]
+    }[name="${cbName}"]`
+  );
+  if (!control)
+    return [
+      `refers to the unknown control block ${ldInst} ${cbName} of ${iedName}`,
+    ];
+  return [];
+}
+
+function checkLNode(doc: XMLDocument, lNode: Element): string[] {
+  const iedName = lNode.getAttribute('iedName');
+  const ied = findIed(doc, iedName);
+  if (!ied) return [`refers to the unknown IED ${iedName}`];
+  if (!referencedAnyLn(ied, lNode))
+    return [`refers to an unknown logical node of ${iedName}`];
+  return [];
+}
+
+function checkClientLN(doc: XMLDocument, clientLN: Element): string[] {
+  const [iedName, ldInst, prefix, lnClass, lnInst] = [
+    'iedName',
+    'ldInst',
+    'prefix',
+    'lnClass',
+    'lnInst',
+  ].map(name => clientLN.getAttribute(name) ?? '');
+  const ied = findIed(doc, iedName);
+  if (!ied) return [`refers to the unknown IED ${iedName}`];
+
+  // client logical nodes without logical device need not be modelled
+  if (!ldInst) return [];
+  const path = `${ldInst}/${prefix}${lnClass}${lnInst}`;
+  if (!structureElements(ied).some(element => structurePath(element) === path))
+    return [`refers to the unknown logical node ${path} of ${iedName}`];
+  return [];
+}
+
+function checkDatSet(control: Element): string[] {
+  const datSet = control.getAttribute('datSet');
+  if (
+    !control.parentElement?.querySelector(`:scope > DataSet[name="${datSet}"]`)
+  )
+    return [`refers to the unknown data set ${datSet}`];
+  return [];
+}
+
+/**
+ * Checks the references between the elements of `doc` which are affected by
+ * replacing IEDs, namely those of `ExtRef`, `ConnectedAP`, `GSE`, `SMV`,
+ * `LNode` and `ClientLN` elements and the `datSet` of control blocks.
+ * @param doc - The document to check.
+ * @returns an issue for each reference which does not resolve.
+ */
+export function validateReferences(doc: XMLDocument): IntegrityIssue[] {
+  const checks: [string, (element: Element) => string[]][] = [
+    [
+      ':root > IED ExtRef',
+      extRef => (isSubscribed(extRef) ? checkExtRef(doc, extRef) : []),
+    ],
+    [
+      ':root > Communication > SubNetwork > ConnectedAP',
+      connectedAP => checkConnectedAP(doc, connectedAP),
+    ],
+    [
+      ':root > Communication > SubNetwork > ConnectedAP > GSE, :root > Communication > SubNetwork > ConnectedAP > SMV',
+      block => checkControlBlock(doc, block),
+    ],
+    [
+      'LNode[iedName]:not([iedName="None"])',
+      lNode => (lNode.closest('IED') ? [] : checkLNode(doc, lNode)),
+    ],
+    [':root > IED ClientLN', clientLN => checkClientLN(doc, clientLN)],
+    [
+      ':root > IED GSEControl[datSet], :root > IED SampledValueControl[datSet], :root > IED ReportControl[datSet], :root > IED LogControl[datSet]',
+      checkDatSet,
+    ],
+  ];
+
+  return checks.flatMap(([selector, check]) =>
+    Array.from(doc.querySelectorAll(selector))
+      .filter(element => !element.closest('Private'))
+      .flatMap(element =>
+        check(element).map(problem => ({
+          element,
+          message: `${describe(element)} ${problem}`,
+        }))
+      )
+  );
+}
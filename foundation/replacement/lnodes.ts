@@ -0,0 +1,82 @@
+import { Update } from '@openscd/open-scd-core';
+
+import { identity } from '../identities/identity.js';
+import {
+  findCounterpart,
+  StructureMapping,
+  structureElements,
+  structurePath,
+} from './mapping.js';
+import type { ReplacementReport } from './report.js';
+
+/** @returns the logical node of `ied` the `LNode` `lNode` refers to. */
+export function referencedAnyLn(
+  ied: Element,
+  lNode: Element
+): Element | undefined {
+  const path = `${lNode.getAttribute('ldInst')}/${[
+    'prefix',
+    'lnClass',
+    'lnInst',
+  ]
+    .map(name => lNode.getAttribute(name) ?? '')
+    .join('')}`;
+
+  return structureElements(ied).find(
+    element => element.tagName !== 'LDevice' && structurePath(element) === path
+  );
+}
+
+/**
+ * Checks every `LNode` referring to `oldIed` against the logical nodes of
+ * `newIed`. References the new IED does not resolve are re-mapped to the
+ * counterpart of the logical node they used to refer to or reported.
+ * @param doc - The document containing `oldIed` and the `LNode` elements.
+ * @param oldIed - The IED being replaced, within the document.
+ * @param newIed - The not yet inserted IED replacing it.
+ * @param mapping - Pairs logical nodes of both IEDs with different names.
+ * @param report - Collects re-mapped and unresolved references.
+ * @returns the edits re-mapping `LNode` elements.
+ */
+export function planLNodeUpdate(
+  doc: XMLDocument,
+  oldIed: Element,
+  newIed: Element,
+  mapping: StructureMapping,
+  report: ReplacementReport
+): Update[] {
+  return Array.from(
+    doc.querySelectorAll(`LNode[iedName="${oldIed.getAttribute('name')}"]`)
+  )
+    .filter(lNode => !lNode.closest('IED') && !lNode.closest('Private'))
+    .flatMap(lNode => {
+      if (referencedAnyLn(newIed, lNode)) return [];
+
+      const oldAnyLn = referencedAnyLn(oldIed, lNode);
+      const newAnyLn = oldAnyLn
+        ? findCounterpart(newIed, oldAnyLn, mapping)
+        : null;
+      if (!newAnyLn) {
+        report.warnings.push(
+          `LNode ${identity(
+            lNode
+          )} refers to no logical node of the template and is unresolved`
+        );
+        return [];
+      }
+
+      const update: Update = {
+        element: lNode,
+        attributes: {
+          ldInst: newAnyLn.closest('LDevice')!.getAttribute('inst'),
+          prefix: newAnyLn.getAttribute('prefix') || null,
+          lnClass: newAnyLn.getAttribute('lnClass'),
+          lnInst: newAnyLn.getAttribute('inst') || null,
+        },
+      };
+      report.remapped.push(
+        `LNode ${identity(lNode)} to ${structurePath(newAnyLn)}`
+      );
+      return [update];
+    });
+}
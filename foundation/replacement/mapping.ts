@@ -0,0 +1,210 @@
+/**
+ * Pairs the logical devices and logical nodes of replaced IEDs with those of
+ * the template where their names differ, by [[`structurePath`]]. Logical
+ * nodes not paired themselves move along with their logical device.
+ */
+export type StructureMapping = Record<string, string>;
+
+/**
+ * @returns the `inst` of an `LDevice` or the `LDevice` `inst` followed by
+ * the logical node name of an `LN0` or `LN`, e.g. `CTRL/InXCBR1`.
+ */
+export function structurePath(element: Element): string {
+  if (element.tagName === 'LDevice') return element.getAttribute('inst') ?? '';
+
+  const ldInst = element.closest('LDevice')?.getAttribute('inst') ?? '';
+  const lnName = ['prefix', 'lnClass', 'inst']
+    .map(name => element.getAttribute(name) ?? '')
+    .join('');
+  return `${ldInst}/${lnName}`;
+}
+
+/** @returns the logical devices, `LN0` and `LN` elements of `ied`. */
+export function structureElements(ied: Element): Element[] {
+  return Array.from(
+    ied.querySelectorAll(
+      ':scope > AccessPoint > Server > LDevice, :scope > AccessPoint > Server > LDevice > LN0, :scope > AccessPoint > Server > LDevice > LN'
+    )
+  );
+}
+
+/** @returns the path `element` is mapped to by `mapping`. */
+export function mappedPath(
+  element: Element,
+  mapping: StructureMapping
+): string {
+  const path = structurePath(element);
+  if (mapping[path]) return mapping[path];
+  if (element.tagName === 'LDevice') return path;
+
+  const [ldInst, lnName] = path.split('/');
+  return `${mapping[ldInst] ?? ldInst}/${lnName}`;
+}
+
+/**
+ * @returns the logical device or logical node of `ied` which `element` of
+ * another IED is mapped to by `mapping` or has the same name as.
+ */
+export function findCounterpart(
+  ied: Element,
+  element: Element,
+  mapping: StructureMapping
+): Element | null {
+  const path = mappedPath(element, mapping);
+  return (
+    structureElements(ied).find(
+      candidate =>
+        (candidate.tagName === 'LDevice') === (element.tagName === 'LDevice') &&
+        structurePath(candidate) === path
+    ) ?? null
+  );
+}
+
+const referenceAttributes = ['ldInst', 'prefix', 'lnClass', 'lnInst'];
+
+/**
+ * Rewrites the references of `FCDA`, `LogControl` and loop-back `ExtRef`
+ * elements within `element` to logical nodes of `oldIed` which `mapping`
+ * moves, so that they refer to the counterparts within `newIed` instead.
+ * @param element - An element copied from `oldIed` into `newIed`.
+ * @param oldIed - The IED being replaced.
+ * @param newIed - The not yet inserted IED replacing it, of the same name.
+ * @param mapping - The mapping between both IEDs' structures.
+ * @returns the paths of the references which were rewritten.
+ */
+export function remapDataReferences(
+  element: Element,
+  oldIed: Element,
+  newIed: Element,
+  mapping: StructureMapping
+): string[] {
+  const iedName = oldIed.getAttribute('name');
+  const oldAnyLns = structureElements(oldIed).filter(
+    anyLn => anyLn.tagName !== 'LDevice'
+  );
+
+  return [element, ...Array.from(element.querySelectorAll('*'))]
+    .filter(
+      reference =>
+        ['FCDA', 'LogControl'].includes(reference.tagName) ||
+        (reference.tagName === 'ExtRef' &&
+          reference.getAttribute('iedName') === iedName)
+    )
+    .flatMap(reference => {
+      const [ldInst, prefix, lnClass, lnInst] = referenceAttributes.map(
+        name => reference.getAttribute(name) ?? ''
+      );
+      const oldAnyLn = oldAnyLns.find(
+        anyLn =>
+          structurePath(anyLn) === `${ldInst}/${prefix}${lnClass}${lnInst}`
+      );
+      if (!ldInst || !oldAnyLn) return [];
+
+      const newAnyLn = findCounterpart(newIed, oldAnyLn, mapping);
+      if (!newAnyLn || structurePath(newAnyLn) === structurePath(oldAnyLn))
+        return [];
+
+      reference.setAttribute(
+        'ldInst',
+        newAnyLn.closest('LDevice')!.getAttribute('inst')!
+      );
+      ['prefix', 'lnClass', 'inst'].forEach((name, index) => {
+        const value = newAnyLn.getAttribute(name);
+        const attribute = referenceAttributes[index + 1];
+        if (value) reference.setAttribute(attribute, value);
+        else reference.removeAttribute(attribute);
+      });
+      return [
+        `${reference.tagName} ${structurePath(oldAnyLn)} to ${structurePath(
+          newAnyLn
+        )}`,
+      ];
+    });
+}
+
+/** @returns how well `candidate` fits as counterpart of `element`. */
+function likeness(element: Element, candidate: Element): number {
+  const desc = element.getAttribute('desc');
+  const sameDesc = !!desc && desc === candidate.getAttribute('desc') ? 2 : 0;
+  if (element.tagName === 'LDevice') {
+    const lnClasses = Array.from(candidate.children).map(child =>
+      child.getAttribute('lnClass')
+    );
+    const sharedLnClasses = Array.from(element.children).filter(
+      child =>
+        child.getAttribute('lnClass') &&
+        lnClasses.includes(child.getAttribute('lnClass'))
+    ).length;
+    return sameDesc + sharedLnClasses;
+  }
+
+  const sameInst =
+    element.getAttribute('inst') === candidate.getAttribute('inst') ? 1 : 0;
+  return sameDesc + sameInst;
+}
+
+/**
+ * Suggests a mapping for the logical devices and logical nodes of `oldIed`
+ * without namesake in `templateIed`. Logical devices are paired with those
+ * of the template sharing the most logical node classes and the `desc`,
+ * logical nodes with those of the same `lnClass` in the paired logical
+ * device, preferring the same `desc` and `inst`.
+ * @param oldIed - The IED to be replaced.
+ * @param templateIed - The IED to replace it with.
+ * @param mapping - Pairs already chosen by the user, which are kept.
+ * @returns `mapping` extended by the suggested pairs.
+ */
+export function suggestMapping(
+  oldIed: Element,
+  templateIed: Element,
+  mapping: StructureMapping = {}
+): StructureMapping {
+  const suggestion = { ...mapping };
+  const templateElements = structureElements(templateIed);
+  const oldElements = structureElements(oldIed);
+
+  ['LDevice', 'LN'].forEach(kind => {
+    const isKind = (element: Element) =>
+      kind === 'LDevice'
+        ? element.tagName === 'LDevice'
+        : element.tagName !== 'LDevice';
+
+    const taken = oldElements
+      .filter(isKind)
+      .map(element => findCounterpart(templateIed, element, suggestion))
+      .filter((counterpart): counterpart is Element => counterpart !== null);
+
+    oldElements
+      .filter(
+        element =>
+          isKind(element) && !findCounterpart(templateIed, element, suggestion)
+      )
+      .forEach(element => {
+        const ldInst = mappedPath(element, suggestion).split('/')[0];
+        const candidates = templateElements.filter(
+          candidate =>
+            isKind(candidate) &&
+            !taken.includes(candidate) &&
+            (kind === 'LDevice' ||
+              (candidate.getAttribute('lnClass') ===
+                element.getAttribute('lnClass') &&
+                candidate.closest('LDevice')?.getAttribute('inst') === ldInst))
+        );
+        const best = candidates.reduce<Element | undefined>(
+          (fittest, candidate) =>
+            !fittest ||
+            likeness(element, candidate) > likeness(element, fittest)
+              ? candidate
+              : fittest,
+          undefined
+        );
+        if (!best || (kind === 'LDevice' && likeness(element, best) === 0))
+          return;
+
+        suggestion[structurePath(element)] = structurePath(best);
+        taken.push(best);
+      });
+  });
+
+  return suggestion;
+}
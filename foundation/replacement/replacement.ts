@@ -0,0 +1,541 @@
+import {
+  Insert,
+  isInsert,
+  isRemove,
+  Remove,
+  Update,
+} from '@openscd/open-scd-core';
+
+import { getReference } from '../foundation.js';
+import { identity } from '../identities/identity.js';
+import { selector } from '../identities/selector.js';
+import { SCLTag } from '../utils/scldata.js';
+import { planCommunicationUpdate } from './communication.js';
+import {
+  DataTypeImport,
+  planDataTypeImport,
+  planDataTypeInsertion,
+  planDataTypeRemoval,
+} from './datatypes.js';
+import {
+  findCounterpart,
+  remapDataReferences,
+  StructureMapping,
+  structurePath,
+} from './mapping.js';
+import { HistoryEntry, planHistoryItem } from './history.js';
+import { planLNodeUpdate } from './lnodes.js';
+import { newReplacementReport, ReplacementReport } from './report.js';
+import { keepInstanceValues } from './settings.js';
+import {
+  extRefDescription,
+  planSubscriberUpdate,
+  updateReplacedSubscribers,
+} from './subscribers.js';
+import { planSupervisionUpdate, updateSupervisions } from './supervision.js';
+
+/** Element kinds which may be carried over from a replaced IED. */
+export type TransferKind =
+  | 'Inputs'
+  | 'GSEControl'
+  | 'DataSet'
+  | 'ReportControl'
+  | 'SampledValueControl'
+  | 'LogControl';
+
+export const transferKinds: TransferKind[] = [
+  'Inputs',
+  'GSEControl',
+  'DataSet',
+  'ReportControl',
+  'SampledValueControl',
+  'LogControl',
+];
+
+export interface ReplacementOptions {
+  /** Element kinds kept from the replaced IED instead of the template. */
+  transfer: TransferKind[];
+  /** Whether to keep the replaced IED's `DOI`/`DAI` values, e.g. settings. */
+  keepInstanceValues: boolean;
+  /**
+   * The logical nodes of the new IEDs receiving the `ExtRef` elements of
+   * logical nodes the template does not have, both by `identity`.
+   */
+  relocateInputs: Record<string, string>;
+  /** Pairs logical devices and nodes of the replaced IEDs with the template's. */
+  mapping: StructureMapping;
+  /** Whether to remove data types used by none of the remaining IEDs. */
+  removeUnusedTypes: boolean;
+  /** If given, the replacement is recorded in the `Header` `History`. */
+  history?: HistoryEntry;
+}
+
+/** Element kinds transferred unless specified otherwise. */
+export const defaultTransfer: TransferKind[] = [
+  'Inputs',
+  'GSEControl',
+  'DataSet',
+];
+
+const defaultOptions: ReplacementOptions = {
+  transfer: defaultTransfer,
+  keepInstanceValues: false,
+  relocateInputs: {},
+  mapping: {},
+  removeUnusedTypes: false,
+};
+
+/** The logical node children transferred for each kind. */
+const transferTags: Record<TransferKind, SCLTag[]> = {
+  Inputs: ['Inputs'],
+  GSEControl: ['GSEControl'],
+  DataSet: ['DataSet'],
+  ReportControl: ['ReportControl'],
+  SampledValueControl: ['SampledValueControl'],
+  LogControl: ['LogControl', 'Log'],
+};
+
+/** @returns the logical node of `newIed` with the `identity` `id`. */
+function findAnyLn(newIed: Element, id: string): Element | null {
+  return newIed.querySelector(`${selector('LN0', id)}, ${selector('LN', id)}`);
+}
+
+/**
+ * Moves the children of the `Inputs` of `anyLn`, a logical node the template
+ * does not have, to the logical node of `newIed` chosen in `relocateInputs`.
+ * Without such a choice they are reported as orphaned.
+ */
+function relocateInputs(
+  anyLn: Element,
+  newIed: Element,
+  relocations: Record<string, string>,
+  report: ReplacementReport
+): void {
+  const id = String(identity(anyLn));
+  const inputs = anyLn.querySelector(':scope > Inputs')!;
+  const target = relocations[id] ? findAnyLn(newIed, relocations[id]) : null;
+
+  if (!target) {
+    const extRefs = Array.from(inputs.querySelectorAll(':scope > ExtRef')).map(
+      extRefDescription
+    );
+    report.orphanedInputs.push({ anyLn: id, extRefs });
+    report.warnings.push(
+      `Inputs ${id} with ${extRefs.length} ExtRefs have no logical node in the template and are lost`
+    );
+    return;
+  }
+
+  let targetInputs = target.querySelector(':scope > Inputs');
+  if (!targetInputs) {
+    targetInputs = <Element>inputs.cloneNode(false);
+    target.insertBefore(targetInputs, getReference(target, 'Inputs'));
+  }
+  Array.from(inputs.children).forEach(child =>
+    targetInputs!.appendChild(child.cloneNode(true))
+  );
+  report.remapped.push(`Inputs ${id} to ${relocations[id]}`);
+}
+
+/**
+ * Replaces all `tag` children of the logical nodes within `newIed` with
+ * copies of those found in the equivalent logical nodes of `oldIed`.
+ * Logical nodes are matched by name unless paired otherwise by `mapping`,
+ * in which case references to them within the copies are rewritten.
+ * @param oldIed - The IED being replaced, within the document.
+ * @param newIed - The not yet inserted IED replacing it.
+ * @param tag - The tag name of the elements to transfer.
+ * @param options - The mapping and where to move `Inputs` without
+ * equivalent logical node.
+ * @param report - Collects the transferred elements and those lost.
+ */
+function transferElements(
+  oldIed: Element,
+  newIed: Element,
+  tag: SCLTag,
+  options: Pick<ReplacementOptions, 'mapping' | 'relocateInputs'>,
+  report: ReplacementReport
+): void {
+  const sections = new Map<Element, Element[]>();
+  Array.from(
+    oldIed.querySelectorAll(`:scope LN > ${tag}, :scope LN0 > ${tag}`)
+  ).forEach(element => {
+    const anyLn = element.parentElement!;
+    if (sections.has(anyLn)) sections.get(anyLn)!.push(element);
+    else sections.set(anyLn, [element]);
+  });
+
+  const orphans: Element[] = [];
+  sections.forEach((elements, anyLn) => {
+    const newAnyLn = findCounterpart(newIed, anyLn, options.mapping);
+    if (!newAnyLn) {
+      if (tag === 'Inputs') orphans.push(anyLn);
+      else
+        elements.forEach(element =>
+          report.warnings.push(
+            `${tag} ${identity(
+              element
+            )} has no logical node in the template and is lost`
+          )
+        );
+      return;
+    }
+
+    newAnyLn
+      .querySelectorAll(`:scope > ${tag}`)
+      .forEach(element => element.remove());
+
+    const reference = getReference(newAnyLn, tag);
+    elements.forEach(element => {
+      const copy = <Element>element.cloneNode(true);
+      newAnyLn.insertBefore(copy, reference);
+      report.transferred.push(`${tag} ${identity(element)}`);
+      report.remapped.push(
+        ...remapDataReferences(copy, oldIed, newIed, options.mapping)
+      );
+    });
+    if (structurePath(newAnyLn) !== structurePath(anyLn))
+      report.remapped.push(
+        `${tag} of ${structurePath(anyLn)} to ${structurePath(newAnyLn)}`
+      );
+  });
+
+  // relocated last as they join the Inputs transferred above
+  orphans.forEach(anyLn =>
+    relocateInputs(anyLn, newIed, options.relocateInputs, report)
+  );
+}
+
+/**
+ * Renames the IED `ied` and rewrites the references within it which refer to
+ * it by its previous name. These are the `iedName` attributes of loop-back
+ * ExtRefs and ClientLNs, the content of `IEDName` elements, Edition 2
+ * `ldName` attributes and object references starting with one of the IED's
+ * logical devices, such as LGOS/LSVS `setSrcRef` values. Descriptions and
+ * other values which merely equal the previous name are left alone.
+ * @param ied - An IED not yet inserted into the document.
+ * @param newName - The IED's new name.
+ */
+function renameIed(ied: Element, newName: string): void {
+  const oldName = ied.getAttribute('name') ?? '';
+  ied.setAttribute('name', newName);
+  if (oldName === newName) return;
+
+  const ldNames = Array.from(ied.querySelectorAll('LDevice'))
+    .map(lDevice => lDevice.getAttribute('inst'))
+    .filter(inst => inst)
+    .map(inst => `${oldName}${inst}`);
+  const inUse = (element: Element) => !element.closest('Private');
+
+  Array.from(ied.querySelectorAll('[iedName]'))
+    .filter(inUse)
+    .filter(element => element.getAttribute('iedName') === oldName)
+    .forEach(element => element.setAttribute('iedName', newName));
+
+  Array.from(ied.querySelectorAll('[ldName]'))
+    .filter(inUse)
+    .filter(element => ldNames.includes(element.getAttribute('ldName')!))
+    .forEach(element =>
+      element.setAttribute(
+        'ldName',
+        `${newName}${element.getAttribute('ldName')!.slice(oldName.length)}`
+      )
+    );
+
+  Array.from(ied.querySelectorAll('IEDName, DAI > Val'))
+    .filter(inUse)
+    .forEach(element => {
+      const value = element.textContent?.trim() ?? '';
+      const isReference =
+        element.tagName === 'IEDName'
+          ? value === oldName
+          : ldNames.some(ldName => value.startsWith(`${ldName}/`));
+      if (!isReference) return;
+      // eslint-disable-next-line no-param-reassign
+      element.textContent = `${newName}${value.slice(oldName.length)}`;
+    });
+}
+
+/**
+ * @returns the tag name and `identity` of `node`. Inserted IEDs are not yet
+ * part of the document and are described by their name instead.
+ */
+function describeNode(node: Node): string {
+  const element = <Element>node;
+  if (element.tagName === 'IED') return `IED ${element.getAttribute('name')}`;
+  return `${element.tagName} ${identity(element)}`;
+}
+
+export interface ReplacementPlan {
+  /** The edits to be dispatched together as a single compound edit. */
+  edits: (Insert | Update | Remove)[];
+  /** One report per replaced IED. */
+  reports: ReplacementReport[];
+}
+
+/** A template and the IEDs to replace with copies of it. */
+export interface ReplacementPairing {
+  /** The IED to copy. */
+  templateIed: Element;
+  /** The IEDs to replace. */
+  targetIeds: Element[];
+  /** Pairs the logical devices and nodes of the pairing, if not the default. */
+  mapping?: StructureMapping;
+}
+
+interface PairingPlan extends ReplacementPlan {
+  /** The not yet inserted IEDs replacing the `targetIeds`. */
+  newIeds: Element[];
+}
+
+/**
+ * Plans replacing the `targetIeds` with copies of `templateIed`, see
+ * [[`planIedReplacement`]], leaving the supervisions and the data types,
+ * which depend on the rest of the job, to the caller.
+ * @param replacedIeds - The IEDs replaced by the whole job.
+ * @returns the planned edits, reports and new IEDs.
+ */
+function planPairing(
+  doc: XMLDocument,
+  { templateIed, targetIeds, mapping: pairingMapping }: ReplacementPairing,
+  replacedIeds: Element[],
+  options: ReplacementOptions
+): PairingPlan {
+  const {
+    transfer,
+    keepInstanceValues: keepValues,
+    relocateInputs: relocations,
+  } = options;
+  const mapping = pairingMapping ?? options.mapping;
+  const plan: PairingPlan = { edits: [], reports: [], newIeds: [] };
+
+  targetIeds.forEach(targetIed => {
+    const report = newReplacementReport(
+      targetIed.getAttribute('name')!,
+      templateIed.getAttribute('name')!
+    );
+    const newIed = <Element>doc.importNode(templateIed, true);
+
+    // self-references are renamed before transfers as the transferred
+    // elements may legitimately refer to the template IED as a publisher
+    renameIed(newIed, report.iedName);
+
+    transfer
+      .flatMap(kind => transferTags[kind])
+      .forEach(tag =>
+        transferElements(
+          targetIed,
+          newIed,
+          tag,
+          { mapping, relocateInputs: relocations },
+          report
+        )
+      );
+
+    // the data types are those of the template until they are imported
+    if (keepValues)
+      keepInstanceValues(
+        templateIed.ownerDocument,
+        targetIed,
+        newIed,
+        mapping,
+        report
+      );
+
+    const subscriberUpdates = planSubscriberUpdate(
+      doc,
+      targetIed,
+      newIed,
+      replacedIeds,
+      report
+    );
+    const edits: (Insert | Update | Remove)[] = [
+      {
+        parent: targetIed.parentElement!,
+        node: newIed,
+        reference: targetIed.nextSibling,
+      },
+      { node: targetIed },
+      ...planCommunicationUpdate(doc, targetIed, newIed, templateIed, report),
+      ...subscriberUpdates,
+      ...planSupervisionUpdate(subscriberUpdates, report),
+      ...planLNodeUpdate(doc, targetIed, newIed, mapping, report),
+    ];
+    edits.forEach(edit => {
+      if (isInsert(edit)) report.inserted.push(describeNode(edit.node));
+      if (isRemove(edit)) report.removed.push(describeNode(edit.node));
+    });
+
+    plan.edits.push(...edits);
+    plan.reports.push(report);
+    plan.newIeds.push(newIed);
+  });
+
+  return plan;
+}
+
+/**
+ * Plans several replacements as one job, each replacing its `targetIeds`
+ * with copies of its `templateIed` as [[`planIedReplacement`]] does. IEDs
+ * targeted by several pairings are replaced by the first of them, templates
+ * are never replaced. Subscriptions between replaced IEDs are checked
+ * against the new publishers too. Data types imported for one template are
+ * reused by the others and the job is recorded as a single `Hitem`.
+ * @param doc - The document containing the `targetIeds`.
+ * @param pairings - The templates and the IEDs to replace with each.
+ * @param options - Overrides for the default [[`ReplacementOptions`]],
+ * `mapping` being overridden in turn by that of a pairing.
+ * @returns the edits replacing all `targetIeds` and a report for each.
+ */
+export function planReplacementJob(
+  doc: XMLDocument,
+  pairings: ReplacementPairing[],
+  options: Partial<ReplacementOptions> = {}
+): ReplacementPlan {
+  const fullOptions = { ...defaultOptions, ...options };
+  const { removeUnusedTypes, history } = fullOptions;
+  const plan: ReplacementPlan = { edits: [], reports: [] };
+
+  const templates = pairings.map(pairing => pairing.templateIed);
+  const replacedIeds: Element[] = [];
+  const jobPairings = pairings.map(pairing => {
+    const targetIeds = pairing.targetIeds.filter(
+      targetIed =>
+        !templates.includes(targetIed) && !replacedIeds.includes(targetIed)
+    );
+    replacedIeds.push(...targetIeds);
+    return { ...pairing, targetIeds };
+  });
+
+  const addedTypes: Element[] = [];
+  const oldIeds: Element[] = [];
+  const newIeds: Element[] = [];
+  // the template and imported data types of each of the new IEDs
+  const origins: { templateIed: Element; typeImport?: DataTypeImport }[] = [];
+  const replaced: string[] = [];
+  jobPairings.forEach(pairing => {
+    if (pairing.targetIeds.length === 0) return;
+    const { templateIed } = pairing;
+
+    // templates from other documents bring along the data types they need
+    const typeImport =
+      templateIed.ownerDocument !== doc
+        ? planDataTypeImport(doc, templateIed, addedTypes)
+        : undefined;
+
+    const pairingPlan = planPairing(doc, pairing, replacedIeds, fullOptions);
+
+    // the data types are shared by the pairing's new IEDs but reported once
+    if (typeImport) {
+      addedTypes.push(...typeImport.added);
+      pairingPlan.reports[0].inserted.unshift(
+        ...typeImport.added.map(
+          type => `${type.tagName} ${type.getAttribute('id')}`
+        )
+      );
+    }
+
+    plan.edits.push(...pairingPlan.edits);
+    plan.reports.push(...pairingPlan.reports);
+    oldIeds.push(...pairing.targetIeds);
+    newIeds.push(...pairingPlan.newIeds);
+    origins.push(
+      ...pairingPlan.newIeds.map(() => ({ templateIed, typeImport }))
+    );
+    replaced.push(
+      `IEDs ${pairingPlan.reports
+        .map(report => report.iedName)
+        .join(', ')} with template ${templateIed.getAttribute('name')}`
+    );
+  });
+
+  if (plan.reports.length === 0) return plan;
+
+  // subscriptions among the replaced IEDs follow their publishers as well
+  oldIeds.forEach((oldIed, index) =>
+    updateReplacedSubscribers(
+      oldIed,
+      newIeds[index],
+      newIeds.filter(newIed => newIed !== newIeds[index]),
+      plan.reports[index]
+    )
+  );
+
+  // supervisions follow the subscriptions as rebound above, with the data
+  // types of the templates until these are imported
+  newIeds.forEach((newIed, index) => {
+    const { templateIed, typeImport } = origins[index];
+    updateSupervisions(
+      doc,
+      newIed,
+      plan.reports[index],
+      templateIed.ownerDocument,
+      newIeds
+    );
+
+    if (typeImport)
+      newIed.querySelectorAll('LN0, LN').forEach(anyLn => {
+        const lnType = typeImport.ids.get(anyLn.getAttribute('lnType') ?? '');
+        if (lnType) anyLn.setAttribute('lnType', lnType);
+      });
+  });
+
+  // job wide edits are reported with the first IED only
+  const [firstReport] = plan.reports;
+  plan.edits.unshift(...planDataTypeInsertion(doc, addedTypes));
+  if (removeUnusedTypes) {
+    const removals = planDataTypeRemoval(
+      doc,
+      replacedIeds,
+      newIeds,
+      addedTypes
+    );
+    plan.edits.push(...removals);
+    firstReport.removed.push(...removals.map(edit => describeNode(edit.node)));
+  }
+
+  if (history) {
+    const what = `Replaced ${replaced.join('; ')}`;
+    const historyEdits = planHistoryItem(doc, what, history);
+    plan.edits.push(...historyEdits);
+    if (historyEdits.length > 0) firstReport.inserted.push(`Hitem ${what}`);
+  }
+
+  return plan;
+}
+
+/**
+ * Plans the replacement of each of `targetIeds` with a copy of
+ * `templateIed`. Each copy takes the name of the IED it replaces, also
+ * where the template refers to itself, and keeps the element kinds listed
+ * in `options.transfer` from it, optionally along with its `DAI` values.
+ * `Inputs` of logical nodes the template lacks are moved to the logical node
+ * chosen in `options.relocateInputs` or reported as orphaned. Logical
+ * devices and nodes are matched by name unless paired in `options.mapping`.
+ * A `templateIed` of another document, e.g. an ICD file, brings along the
+ * data types it needs, reusing those of `doc` with the same content.
+ * Data types only the replaced IEDs used are optionally removed and the
+ * replacement is optionally recorded as `Hitem` in the `Header`.
+ * The Communication section is updated to the structure of the copy,
+ * carrying over the addresses of the replaced IED.
+ * The copy's LGOS/LSVS supervisions follow the control blocks it subscribes to.
+ * Subscriptions of other IEDs are rebound to the copy's equivalent data.
+ * `LNode` references are re-mapped to the copy's logical nodes.
+ *
+ * The document is left untouched. The planned edits are to be dispatched
+ * together as a single compound edit so that one undo restores the original
+ * document, including the order of its IEDs.
+ * @param doc - The document containing the `targetIeds`.
+ * @param templateIed - The IED to copy.
+ * @param targetIeds - The IEDs to replace.
+ * @param options - Overrides for the default [[`ReplacementOptions`]].
+ * @returns the edits replacing the `targetIeds` and a report for each.
+ */
+export function planIedReplacement(
+  doc: XMLDocument,
+  templateIed: Element,
+  targetIeds: Element[],
+  options: Partial<ReplacementOptions> = {}
+): ReplacementPlan {
+  return planReplacementJob(doc, [{ templateIed, targetIeds }], options);
+}
@@ -0,0 +1,113 @@
+/** The `Inputs` of a logical node the template does not have. */
+export interface OrphanedInputs {
+  /** The `identity` of the logical node within the replaced IED. */
+  anyLn: string;
+  /** A description of each of its `ExtRef` elements. */
+  extRefs: string[];
+}
+
+/** The outcome of replacing a single IED, for review by the user. */
+export interface ReplacementReport {
+  /** The name of the replaced IED. */
+  iedName: string;
+  /** The name of the template it is replaced with. */
+  templateName: string;
+  /** Elements removed from the document. */
+  removed: string[];
+  /** Elements inserted into the document. */
+  inserted: string[];
+  /** Elements carried over from the replaced IED. */
+  transferred: string[];
+  /** References re-mapped to the structure of the template. */
+  remapped: string[];
+  /** `Inputs` which are lost unless relocated. */
+  orphanedInputs: OrphanedInputs[];
+  /** Problems found while planning the replacement. */
+  warnings: string[];
+}
+
+export function newReplacementReport(
+  iedName: string,
+  templateName: string
+): ReplacementReport {
+  return {
+    iedName,
+    templateName,
+    removed: [],
+    inserted: [],
+    transferred: [],
+    remapped: [],
+    orphanedInputs: [],
+    warnings: [],
+  };
+}
+
+/** The categories of a [[`ReplacementReport`]] listing affected elements. */
+const reportCategories = [
+  'removed',
+  'inserted',
+  'transferred',
+  'remapped',
+  'warnings',
+] as const;
+
+/**
+ * @returns `reports` as JSON for the record of the document `docName`,
+ * along with the time of the export and the `issues` found in the document
+ * after applying the replacement, if any.
+ */
+export function reportsToJson(
+  reports: ReplacementReport[],
+  docName: string,
+  issues: string[] = []
+): string {
+  return JSON.stringify(
+    {
+      document: docName,
+      date: new Date().toISOString(),
+      reports,
+      ...(issues.length > 0 ? { issues } : {}),
+    },
+    null,
+    2
+  );
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * @returns `reports` as CSV with one row per entry, giving the name of the
+ * replaced IED, that of its template, the category of the entry and the
+ * entry itself. Orphaned `Inputs` are listed with one row per lost `ExtRef`,
+ * the `issues` found after applying the replacement with one row each.
+ */
+export function reportsToCsv(
+  reports: ReplacementReport[],
+  issues: string[] = []
+): string {
+  const rows = reports.flatMap(report => [
+    ...reportCategories.flatMap(category =>
+      report[category].map(entry => [
+        report.iedName,
+        report.templateName,
+        category,
+        entry,
+      ])
+    ),
+    ...report.orphanedInputs.flatMap(orphan =>
+      orphan.extRefs.map(extRef => [
+        report.iedName,
+        report.templateName,
+        'orphanedInputs',
+        `${orphan.anyLn}: ${extRef}`,
+      ])
+    ),
+  ]);
+  issues.forEach(issue => rows.push(['', '', 'issues', issue]));
+
+  return [['iedName', 'templateName', 'category', 'entry'], ...rows]
+    .map(row => row.map(csvField).join(','))
+    .join('\r\n');
+}
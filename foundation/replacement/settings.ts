@@ -0,0 +1,88 @@
+import { getReference } from '../foundation.js';
+import { SCLTag } from '../utils/scldata.js';
+import { dataReference, dataTypeDefinition } from './datamodel.js';
+import { findCounterpart, StructureMapping } from './mapping.js';
+import type { ReplacementReport } from './report.js';
+
+/** @returns the `DOI`, `SDI` and `DAI` elements leading to `dai`. */
+function instancePath(dai: Element): Element[] {
+  const path: Element[] = [];
+  let current: Element | null = dai;
+  while (current && ['DOI', 'SDI', 'DAI'].includes(current.tagName)) {
+    path.unshift(current);
+    current = current.parentElement;
+  }
+  return path;
+}
+
+/**
+ * @returns the child of `parent` with the same tag name, `name` and `ix` as
+ * `instance`, which is created from a shallow copy of `instance` if missing.
+ */
+function findOrCreate(parent: Element, instance: Element): Element {
+  const [name, ix] = ['name', 'ix'].map(
+    attribute => instance.getAttribute(attribute) ?? ''
+  );
+  const existing = Array.from(parent.children).find(
+    child =>
+      child.tagName === instance.tagName &&
+      (child.getAttribute('name') ?? '') === name &&
+      (child.getAttribute('ix') ?? '') === ix
+  );
+  if (existing) return existing;
+
+  const created = <Element>instance.cloneNode(false);
+  parent.insertBefore(created, getReference(parent, <SCLTag>instance.tagName));
+  return created;
+}
+
+/**
+ * Carries the `Val` elements of every `DAI` within `oldIed` over to the
+ * equivalent `DAI` of `newIed`, instantiating it if its data attribute is
+ * part of the logical node's type. Values without such a home are reported.
+ * @param doc - The document holding the `DataTypeTemplates` of `newIed`.
+ * @param oldIed - The IED being replaced, within the document.
+ * @param newIed - The not yet inserted IED replacing it.
+ * @param mapping - Pairs logical nodes of both IEDs with different names.
+ * @param report - Collects the values which are kept and those lost.
+ */
+export function keepInstanceValues(
+  doc: XMLDocument,
+  oldIed: Element,
+  newIed: Element,
+  mapping: StructureMapping,
+  report: ReplacementReport
+): void {
+  Array.from(
+    oldIed.querySelectorAll(':scope LN0 > DOI DAI, :scope LN > DOI DAI')
+  )
+    .filter(dai => !dai.closest('Private') && dai.querySelector(':scope > Val'))
+    .forEach(dai => {
+      const oldAnyLn = dai.closest('LN0, LN')!;
+      const newAnyLn = findCounterpart(newIed, oldAnyLn, mapping);
+      const path = instancePath(dai);
+      const vals = Array.from(dai.querySelectorAll(':scope > Val'));
+      const value = `${dataReference(dai)} = ${vals
+        .map(val => val.textContent?.trim())
+        .join(', ')}`;
+
+      if (
+        !newAnyLn ||
+        !dataTypeDefinition(
+          doc,
+          newAnyLn,
+          path.map(instance => instance.getAttribute('name') ?? '')
+        )
+      ) {
+        report.warnings.push(
+          `Value ${value} has no counterpart in the template and is lost`
+        );
+        return;
+      }
+
+      const newDai = path.reduce(findOrCreate, newAnyLn);
+      newDai.querySelectorAll(':scope > Val').forEach(val => val.remove());
+      vals.forEach(val => newDai.appendChild(val.cloneNode(true)));
+      report.transferred.push(`Value ${value}`);
+    });
+}
@@ -0,0 +1,320 @@
+import { Update } from '@openscd/open-scd-core';
+
+import { findControlBlocks } from '../foundation.js';
+import { findFCDAs } from '../subscription/subscription.js';
+import { equivalentControls } from './communication.js';
+import type { ReplacementReport } from './report.js';
+
+const fcdaAttributes = [
+  'ldInst',
+  'prefix',
+  'lnClass',
+  'lnInst',
+  'doName',
+  'daName',
+];
+
+const srcAttributes = [
+  'srcLDInst',
+  'srcPrefix',
+  'srcLNClass',
+  'srcLNInst',
+  'srcCBName',
+];
+
+const controlTags = ['GSEControl', 'SampledValueControl', 'ReportControl'];
+
+/** @returns a short description of the data `extRef` is bound to. */
+export function extRefDescription(extRef: Element): string {
+  const subscriber = extRef.closest('IED')?.getAttribute('name');
+  const [iedName, ldInst, prefix, lnClass, lnInst, doName, daName] = [
+    'iedName',
+    ...fcdaAttributes,
+  ].map(name => extRef.getAttribute(name) ?? '');
+  const daPath = daName ? `.${daName}` : '';
+  return `${subscriber}: ${iedName} ${ldInst}/${prefix}${lnClass}${lnInst}.${doName}${daPath}`;
+}
+
+function bindsTo(extRef: Element, fcda: Element): boolean {
+  return fcdaAttributes.every(
+    name =>
+      (extRef.getAttribute(name) ?? '') === (fcda.getAttribute(name) ?? '')
+  );
+}
+
+function dataSetOf(control: Element): Element | null {
+  return control.parentElement!.querySelector(
+    `:scope > DataSet[name="${control.getAttribute('datSet')}"]`
+  );
+}
+
+function controlsOf(dataSet: Element): Element[] {
+  return Array.from(dataSet.parentElement!.children).filter(
+    child =>
+      controlTags.includes(child.tagName) &&
+      child.getAttribute('datSet') === dataSet.getAttribute('name')
+  );
+}
+
+/** @returns the control block within `ied` the `extRef` names as source. */
+export function srcControl(ied: Element, extRef: Element): Element | null {
+  const [srcLDInst, srcPrefix, srcLNClass, srcLNInst, srcCBName] =
+    srcAttributes.map(name => extRef.getAttribute(name) ?? '');
+  const ldInst = srcLDInst || extRef.getAttribute('ldInst');
+
+  const anyLn = Array.from(
+    ied.querySelectorAll(
+      `:scope > AccessPoint > Server > LDevice[inst="${ldInst}"] > LN0, :scope > AccessPoint > Server > LDevice[inst="${ldInst}"] > LN`
+    )
+  ).find(
+    candidate =>
+      (candidate.getAttribute('prefix') ?? '') === srcPrefix &&
+      candidate.getAttribute('lnClass') === (srcLNClass || 'LLN0') &&
+      (candidate.getAttribute('inst') ?? '') === srcLNInst
+  );
+
+  return (
+    Array.from(anyLn?.children ?? []).find(
+      child =>
+        controlTags.includes(child.tagName) &&
+        child.getAttribute('name') === srcCBName
+    ) ?? null
+  );
+}
+
+/** @returns the control block of `newIed` replacing `oldControl`. */
+function successorControl(
+  newIed: Element,
+  oldControl: Element
+): Element | undefined {
+  const controls = Array.from(
+    newIed.querySelectorAll(
+      `:scope > AccessPoint > Server > LDevice > * > ${oldControl.tagName}`
+    )
+  );
+  const ldInst = oldControl.closest('LDevice')?.getAttribute('inst');
+  return (
+    controls.find(
+      control =>
+        control.getAttribute('name') === oldControl.getAttribute('name') &&
+        control.closest('LDevice')?.getAttribute('inst') === ldInst
+    ) ?? controls.find(control => equivalentControls(oldControl, control))
+  );
+}
+
+/**
+ * @returns the FCDA of `dataSet` publishing the same data as `oldFcda`,
+ * first by logical node class, data object, data attribute and functional
+ * constraint and then by its position in the data set.
+ */
+function successorFcda(
+  dataSet: Element,
+  oldFcda: Element
+): Element | undefined {
+  const fcdas = Array.from(dataSet.querySelectorAll(':scope > FCDA'));
+  const same = fcdas.filter(fcda =>
+    ['lnClass', 'doName', 'daName', 'fc'].every(
+      name =>
+        (fcda.getAttribute(name) ?? '') === (oldFcda.getAttribute(name) ?? '')
+    )
+  );
+  if (same.length === 1) return same[0];
+
+  const index = Array.from(oldFcda.parentElement!.children)
+    .filter(child => child.tagName === 'FCDA')
+    .indexOf(oldFcda);
+  const positional = fcdas[index];
+  return positional?.getAttribute('fc') === oldFcda.getAttribute('fc')
+    ? positional
+    : undefined;
+}
+
+function rebinding(
+  extRef: Element,
+  fcda: Element,
+  control: Element
+): Update['attributes'] {
+  const attributes: Update['attributes'] = {};
+  fcdaAttributes.forEach(name => {
+    attributes[name] = fcda.getAttribute(name);
+  });
+
+  if (extRef.hasAttribute('srcCBName')) {
+    const anyLn = control.parentElement!;
+    attributes.srcLDInst = control.closest('LDevice')!.getAttribute('inst');
+    attributes.srcPrefix = anyLn.getAttribute('prefix') || null;
+    attributes.srcLNClass = anyLn.getAttribute('lnClass');
+    attributes.srcLNInst = anyLn.getAttribute('inst') || null;
+    attributes.srcCBName = control.getAttribute('name');
+  }
+
+  return attributes;
+}
+
+/** @returns whether `extRef` is still valid with `newIed` as publisher. */
+function isConfirmed(extRef: Element, newIed: Element): boolean {
+  const newSrcControl = extRef.hasAttribute('srcCBName')
+    ? srcControl(newIed, extRef)
+    : null;
+  if (newSrcControl)
+    return Array.from(dataSetOf(newSrcControl)?.children ?? []).some(fcda =>
+      bindsTo(extRef, fcda)
+    );
+  return (
+    !extRef.hasAttribute('srcCBName') &&
+    Array.from(newIed.querySelectorAll('FCDA')).some(fcda =>
+      bindsTo(extRef, fcda)
+    )
+  );
+}
+
+/**
+ * @returns the attributes rebinding `extRef` from `oldFcda` published by
+ * `oldControl` to their equivalents in `newIed`, if any. Both outcomes are
+ * recorded in `report`.
+ */
+function planRebinding(
+  extRef: Element,
+  oldFcda: Element | null,
+  oldControl: Element | undefined,
+  newIed: Element,
+  report: ReplacementReport
+): Update['attributes'] | undefined {
+  const newControl = oldControl
+    ? successorControl(newIed, oldControl)
+    : undefined;
+  const newDataSet = newControl ? dataSetOf(newControl) : null;
+  const newFcda =
+    oldFcda && newDataSet ? successorFcda(newDataSet, oldFcda) : undefined;
+
+  if (!newControl || !newFcda) {
+    report.warnings.push(
+      `Subscription ${extRefDescription(
+        extRef
+      )} has no equivalent in the template and is broken`
+    );
+    return undefined;
+  }
+
+  report.remapped.push(
+    `Subscription ${extRefDescription(extRef)} to ${newFcda.getAttribute(
+      'ldInst'
+    )}/${newFcda.getAttribute('prefix') ?? ''}${newFcda.getAttribute(
+      'lnClass'
+    )}${newFcda.getAttribute('lnInst') ?? ''}.${newFcda.getAttribute('doName')}`
+  );
+  return rebinding(extRef, newFcda, newControl);
+}
+
+/**
+ * Checks every ExtRef of the IEDs not being replaced which subscribes to
+ * `oldIed` against the publications of `newIed`. Subscriptions still valid
+ * are confirmed, others are rebound to the equivalent FCDA of `newIed` and
+ * those without an equivalent are reported as broken.
+ * @param doc - The document containing `oldIed` and its subscribers.
+ * @param oldIed - The IED being replaced, within the document.
+ * @param newIed - The not yet inserted IED replacing it.
+ * @param replacedIeds - All IEDs replaced in this run.
+ * @param report - Collects rebound and broken subscriptions.
+ * @returns the edits rebinding subscriptions.
+ */
+export function planSubscriberUpdate(
+  doc: XMLDocument,
+  oldIed: Element,
+  newIed: Element,
+  replacedIeds: Element[],
+  report: ReplacementReport
+): Update[] {
+  const iedName = oldIed.getAttribute('name');
+
+  return Array.from(
+    doc.querySelectorAll(`:root > IED ExtRef[iedName="${iedName}"]`)
+  )
+    .filter(
+      extRef =>
+        !extRef.closest('Private') &&
+        !replacedIeds.includes(extRef.closest('IED')!)
+    )
+    .flatMap(extRef => {
+      if (isConfirmed(extRef, newIed)) return [];
+
+      const serviceType = extRef.getAttribute('serviceType');
+      const oldControls =
+        serviceType === 'GOOSE' || serviceType === 'SMV'
+          ? findControlBlocks(extRef, serviceType)
+          : [];
+      const oldFcda =
+        findFCDAs(extRef).find(
+          fcda =>
+            oldControls.length === 0 ||
+            oldControls.some(
+              control => dataSetOf(control) === fcda.parentElement
+            )
+        ) ?? null;
+      const oldControl =
+        oldControls[0] ??
+        (oldFcda ? controlsOf(oldFcda.parentElement!)[0] : undefined);
+
+      const attributes = planRebinding(
+        extRef,
+        oldFcda,
+        oldControl,
+        newIed,
+        report
+      );
+      return attributes ? [{ element: extRef, attributes }] : [];
+    });
+}
+
+/**
+ * Checks the ExtRefs of the not yet inserted `newSubscribers` which
+ * subscribe to `oldIed`, itself replaced by `newIed` in the same run, as
+ * [[`planSubscriberUpdate`]] does for the IEDs not being replaced. As the
+ * ExtRefs are not yet part of the document, they are rebound in place.
+ * @param oldIed - The IED being replaced, within the document.
+ * @param newIed - The not yet inserted IED replacing it.
+ * @param newSubscribers - The other not yet inserted IEDs of this run.
+ * @param report - Collects rebound and broken subscriptions.
+ */
+export function updateReplacedSubscribers(
+  oldIed: Element,
+  newIed: Element,
+  newSubscribers: Element[],
+  report: ReplacementReport
+): void {
+  const iedName = oldIed.getAttribute('name');
+
+  newSubscribers
+    .flatMap(subscriber =>
+      Array.from(subscriber.querySelectorAll(`ExtRef[iedName="${iedName}"]`))
+    )
+    .filter(extRef => !extRef.closest('Private'))
+    .forEach(extRef => {
+      if (isConfirmed(extRef, newIed)) return;
+
+      // the old publication is looked up in the replaced IED itself
+      const srcCB = extRef.hasAttribute('srcCBName')
+        ? srcControl(oldIed, extRef)
+        : null;
+      const oldFcda =
+        (srcCB
+          ? Array.from(dataSetOf(srcCB)?.children ?? [])
+          : Array.from(oldIed.querySelectorAll('FCDA'))
+        ).find(fcda => fcda.tagName === 'FCDA' && bindsTo(extRef, fcda)) ??
+        null;
+      const oldControl =
+        srcCB ?? (oldFcda ? controlsOf(oldFcda.parentElement!)[0] : undefined);
+
+      const attributes = planRebinding(
+        extRef,
+        oldFcda,
+        oldControl,
+        newIed,
+        report
+      );
+      Object.entries(attributes ?? {}).forEach(([name, value]) => {
+        if (typeof value === 'string') extRef.setAttribute(name, value);
+        else extRef.removeAttribute(name);
+      });
+    });
+}
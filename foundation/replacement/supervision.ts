@@ -0,0 +1,254 @@
+import { Insert, isInsert, Remove, Update } from '@openscd/open-scd-core';
+
+import {
+  controlBlockReference,
+  getSclSchemaVersion,
+  instantiateSubscriptionSupervision,
+  isSupervisionModificationAllowed,
+  maxSupervisions,
+  removeSubscriptionSupervision,
+} from '../subscription/subscription.js';
+import type { ReplacementReport } from './report.js';
+import { srcControl } from './subscribers.js';
+
+const supervisions: Record<string, [string, string]> = {
+  GSEControl: ['LGOS', 'GoCBRef'],
+  SampledValueControl: ['LSVS', 'SvCBRef'],
+};
+
+const serviceTypes: Record<string, string> = {
+  GOOSE: 'GSEControl',
+  SMV: 'SampledValueControl',
+};
+
+/**
+ * Applies `edits` meant for the document to the not yet inserted IED they
+ * concern instead, which is inserted as a whole later on.
+ */
+function applyLocally(edits: (Insert | Remove)[]): void {
+  edits.forEach(edit => {
+    if (isInsert(edit))
+      edit.parent.insertBefore(edit.node, edit.reference ?? null);
+    else (<Element>edit.node).remove();
+  });
+}
+
+/** @returns the `setSrcRef` values of the supervisions of `tag` in `ied`. */
+function supervisionValues(ied: Element, tag: string): Element[] {
+  const [lnClass, doName] = supervisions[tag];
+  return Array.from(
+    ied.querySelectorAll(
+      `LN[lnClass="${lnClass}"] > DOI[name="${doName}"] > DAI[name="setSrcRef"] > Val`
+    )
+  ).filter(val => val.textContent?.trim());
+}
+
+/**
+ * @returns the GOOSE and SMV control blocks `newIed` subscribes to, those of
+ * IEDs being replaced as published by their `replacements`.
+ */
+function subscribedControls(
+  doc: XMLDocument,
+  newIed: Element,
+  replacements: Element[]
+): Element[] {
+  const iedName = newIed.getAttribute('name');
+  const controls = Array.from(newIed.querySelectorAll('ExtRef'))
+    .filter(
+      extRef =>
+        !extRef.closest('Private') &&
+        extRef.hasAttribute('srcCBName') &&
+        ['GOOSE', 'SMV'].includes(extRef.getAttribute('serviceType') ?? '')
+    )
+    .map(extRef => {
+      const publisherName = extRef.getAttribute('iedName');
+      const publisher =
+        publisherName === iedName
+          ? newIed
+          : replacements.find(
+              ied => ied.getAttribute('name') === publisherName
+            ) ?? doc.querySelector(`:root > IED[name="${publisherName}"]`);
+      return publisher ? srcControl(publisher, extRef) : null;
+    })
+    .filter(
+      (control): control is Element =>
+        !!control && control.tagName in supervisions
+    );
+
+  return Array.from(new Set(controls));
+}
+
+/**
+ * Brings the LGOS and LSVS supervision logical nodes of `newIed` in line
+ * with the control blocks it subscribes to. Supervisions of control blocks
+ * no longer subscribed to, e.g. those of the template's own subscriptions,
+ * are removed and those missing are instantiated, as far as the IED's
+ * `maxGo`/`maxSv` and the supervisions' `valKind` and `valImport` allow.
+ * @param doc - The document containing the publishers.
+ * @param newIed - The not yet inserted IED, which is updated in place.
+ * @param report - Collects the supervisions changed and those impossible.
+ * @param dataTypes - The document holding the data types `newIed` refers to,
+ * that of its template as long as they are not imported.
+ * @param replacements - The not yet inserted IEDs of the same job, which
+ * publish in place of the IEDs of the same name within `doc`.
+ */
+export function updateSupervisions(
+  doc: XMLDocument,
+  newIed: Element,
+  report: ReplacementReport,
+  dataTypes: Document = doc,
+  replacements: Element[] = []
+): void {
+  if (getSclSchemaVersion(doc) === '2003') return;
+
+  const controls = subscribedControls(doc, newIed, replacements);
+  const references = controls.map(controlBlockReference);
+  const publishedControls = [
+    newIed,
+    ...replacements,
+    ...Array.from(doc.querySelectorAll(':root > IED')),
+  ].flatMap(ied =>
+    Array.from(ied.querySelectorAll('GSEControl, SampledValueControl'))
+  );
+
+  Object.keys(supervisions).forEach(tag => {
+    const [lnClass] = supervisions[tag];
+    if (!isSupervisionModificationAllowed(newIed, lnClass, dataTypes)) return;
+
+    supervisionValues(newIed, tag)
+      .filter(val => !references.includes(val.textContent!.trim()))
+      .forEach(val => {
+        const reference = val.textContent!.trim();
+        const control = publishedControls.find(
+          candidate =>
+            candidate.tagName === tag &&
+            controlBlockReference(candidate) === reference
+        );
+        const edits = control
+          ? removeSubscriptionSupervision(control, newIed)
+          : [];
+        // supervisions of unknown control blocks are removed the same way
+        applyLocally(
+          edits.length > 0 ? edits : [{ node: val.closest('DOI')! }]
+        );
+        report.remapped.push(
+          `${lnClass} supervision of ${reference} removed as it is no longer subscribed`
+        );
+      });
+  });
+
+  controls.forEach(control => {
+    const [lnClass] = supervisions[control.tagName];
+    const reference = controlBlockReference(control)!;
+    if (
+      supervisionValues(newIed, control.tagName).some(
+        val => val.textContent?.trim() === reference
+      )
+    )
+      return;
+
+    const edits = instantiateSubscriptionSupervision(
+      control,
+      newIed,
+      undefined,
+      dataTypes
+    );
+    if (edits.length > 0) {
+      applyLocally(edits);
+      report.remapped.push(`${lnClass} supervision of ${reference} added`);
+      return;
+    }
+
+    if (!newIed.querySelector(`LN[lnClass="${lnClass}"]`)) return;
+    const max = maxSupervisions(newIed, control.tagName);
+    report.warnings.push(
+      !isSupervisionModificationAllowed(newIed, lnClass, dataTypes)
+        ? `${lnClass} supervision of ${reference} is missing and may not be added to the template`
+        : `${lnClass} supervision of ${reference} is missing as the template supervises at most ${max}`
+    );
+  });
+}
+
+/**
+ * @returns the object reference of the control block `extRef` subscribes to
+ * once `attributes` are applied to it.
+ */
+function srcReference(
+  extRef: Element,
+  attributes: Update['attributes'] = {}
+): string {
+  const value = (name: string) => {
+    const updated = attributes[name];
+    if (name in attributes) return typeof updated === 'string' ? updated : '';
+    return extRef.getAttribute(name) ?? '';
+  };
+  return `${value('iedName')}${value('srcLDInst') || value('ldInst')}/${value(
+    'srcPrefix'
+  )}${value('srcLNClass') || 'LLN0'}${value('srcLNInst')}.${value(
+    'srcCBName'
+  )}`;
+}
+
+/**
+ * Plans pointing the LGOS and LSVS supervisions of other IEDs to the control
+ * blocks their ExtRefs are rebound to by `updates`, as far as the
+ * supervisions' `valKind` and `valImport` allow.
+ * @param updates - The edits rebinding the ExtRefs of the subscribers.
+ * @param report - Collects the supervisions changed and those left behind.
+ * @returns the edits replacing the `setSrcRef` values of the supervisions.
+ */
+export function planSupervisionUpdate(
+  updates: Update[],
+  report: ReplacementReport
+): (Insert | Remove)[] {
+  const references = new Map<Element, string>();
+
+  updates
+    .filter(
+      ({ element, attributes }) =>
+        (element.getAttribute('serviceType') ?? '') in serviceTypes &&
+        element.hasAttribute('srcCBName') &&
+        typeof attributes.srcCBName === 'string'
+    )
+    .forEach(({ element: extRef, attributes }) => {
+      const oldReference = srcReference(extRef);
+      const newReference = srcReference(extRef, attributes);
+      if (oldReference === newReference) return;
+
+      supervisionValues(
+        extRef.closest('IED')!,
+        serviceTypes[extRef.getAttribute('serviceType')!]
+      )
+        .filter(
+          val =>
+            val.textContent!.trim() === oldReference && !references.has(val)
+        )
+        .forEach(val => references.set(val, newReference));
+    });
+
+  return Array.from(references).flatMap(([val, reference]) => {
+    const oldReference = val.textContent!.trim();
+    const supervision = val.closest('LN')!;
+    const lnClass = supervision.getAttribute('lnClass')!;
+    const subscriber = val.closest('IED')!.getAttribute('name');
+
+    if (
+      !isSupervisionModificationAllowed(supervision.closest('IED')!, lnClass)
+    ) {
+      report.warnings.push(
+        `${lnClass} supervision of ${oldReference} in ${subscriber} may not be changed and still supervises the replaced control block`
+      );
+      return [];
+    }
+
+    const newVal = <Element>val.cloneNode(false);
+    newVal.textContent = reference;
+    report.remapped.push(
+      `${lnClass} supervision of ${oldReference} in ${subscriber} to ${reference}`
+    );
+    return [
+      { parent: val.parentElement!, node: newVal, reference: val },
+      { node: val },
+    ];
+  });
+}
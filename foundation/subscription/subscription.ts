@@ -217,11 +217,14 @@ export function findFCDAs(extRef: Element): Element[] {
  * DOType>DA[valKind=Conf/RO][valImport=true] to determine if modifications to supervision are allowed.
  * @param ied - SCL IED element.
  * @param supervisionType - either 'LGOS' or 'LSVS' supervision LN classes.
+ * @param dataTypes - The document holding the IED's DataTypeTemplates, by
+ * default its own.
  * @returns boolean indicating if subscriptions are allowed.
  */
 export function isSupervisionModificationAllowed(
   ied: Element,
-  supervisionType: string
+  supervisionType: string,
+  dataTypes?: Document
 ): boolean {
   const firstSupervisionLN = ied.querySelector(
     `LN[lnClass="${supervisionType}"]`
@@ -246,7 +249,7 @@ export function isSupervisionModificationAllowed(
     return true;
 
   // check if allowed to modify based on DataTypeTemplates for first instance
-  const rootNode = firstSupervisionLN?.ownerDocument;
+  const rootNode = dataTypes ?? firstSupervisionLN.ownerDocument;
   const lNodeType = firstSupervisionLN.getAttribute('lnType');
   const lnClass = firstSupervisionLN.getAttribute('lnClass');
   const dObj = rootNode.querySelector(
@@ -494,12 +497,15 @@ export function findOrCreateAvailableLNInst(
  *
  * @param controlBlock The GOOSE or SMV message element
  * @param subscriberIED The subscriber IED
+ * @param existingSupervision The supervision LN to use, if any
+ * @param dataTypes The document holding the subscriber's DataTypeTemplates
  * @returns an empty array if instantiation is not possible or an array with a single Create action
  */
 export function instantiateSubscriptionSupervision(
   controlBlock: Element | undefined,
   subscriberIED: Element | undefined,
-  existingSupervision: Element | undefined = undefined
+  existingSupervision: Element | undefined = undefined,
+  dataTypes: Document | undefined = undefined
 ): (Insert | Remove)[] {
   const supervisionType =
     controlBlock?.tagName === 'GSEControl' ? 'LGOS' : 'LSVS';
@@ -514,7 +520,7 @@ export function instantiateSubscriptionSupervision(
     findOrCreateAvailableLNInst(controlBlock, subscriberIED, supervisionType);
   if (
     !availableLN ||
-    !isSupervisionModificationAllowed(subscriberIED, supervisionType)
+    !isSupervisionModificationAllowed(subscriberIED, supervisionType, dataTypes)
   )
     return [];
 
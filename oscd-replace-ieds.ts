@@ -1,19 +1,32 @@
-import { css, html, LitElement, nothing, TemplateResult } from 'lit';
-import { msg } from '@lit/localize';
-import { property, query, state } from 'lit/decorators.js';
+import {
+  css,
+  html,
+  LitElement,
+  nothing,
+  PropertyValues,
+  TemplateResult,
+} from 'lit';
+import { msg, str } from '@lit/localize';
+import { property, query, queryAll, state } from 'lit/decorators.js';
+import { repeat } from 'lit/directives/repeat.js';
 
 import '@material/mwc-button';
+import '@material/mwc-checkbox';
 import '@material/mwc-formfield';
 import '@material/mwc-list';
 import '@material/mwc-list/mwc-list-item';
 import '@material/mwc-list/mwc-radio-list-item';
 import '@material/mwc-icon-button';
+import '@material/mwc-textfield';
 
+import './foundation/components/oscd-checkbox.js';
 import './foundation/components/oscd-filter-button.js';
 import './foundation/components/oscd-filtered-list.js';
 
-import { Insert, newEditEvent, Remove } from '@openscd/open-scd-core';
+import { newEditEvent } from '@openscd/open-scd-core';
+import type { Checkbox } from '@material/mwc-checkbox';
 import type { Dialog } from '@material/mwc-dialog';
+import type { TextField } from '@material/mwc-textfield';
 import type { SelectedItemsChangedEvent } from './foundation/components/oscd-filter-button.js';
 
 import {
@@ -21,13 +34,132 @@ import {
   getDescriptionAttribute,
   getNameAttribute,
 } from './foundation/foundation.js';
+import type { OscdCheckbox } from './foundation/components/oscd-checkbox.js';
 import type { OscdFilteredList } from './foundation/components/oscd-filtered-list.js';
 import { identity } from './foundation/identities/identity.js';
 import { selector } from './foundation/identities/selector.js';
+import {
+  compareModels,
+  Compatibility,
+  dataModel,
+} from './foundation/replacement/compatibility.js';
+import { BayGroup, groupByBay } from './foundation/replacement/bays.js';
+import {
+  DiffEntry,
+  diffIeds,
+  DiffKind,
+} from './foundation/replacement/diff.js';
+import {
+  IntegrityIssue,
+  validateReferences,
+} from './foundation/replacement/integrity.js';
+import {
+  findCounterpart,
+  StructureMapping,
+  structureElements,
+  structurePath,
+  suggestMapping,
+} from './foundation/replacement/mapping.js';
+import {
+  defaultTransfer,
+  planReplacementJob,
+  ReplacementPairing,
+  ReplacementPlan,
+  TransferKind,
+  transferKinds,
+} from './foundation/replacement/replacement.js';
+import {
+  OrphanedInputs,
+  ReplacementReport,
+  reportsToCsv,
+  reportsToJson,
+} from './foundation/replacement/report.js';
+
+export { compareDataModels } from './foundation/replacement/compatibility.js';
+export type { Compatibility } from './foundation/replacement/compatibility.js';
+export { diffIeds } from './foundation/replacement/diff.js';
+export type { DiffEntry, DiffKind } from './foundation/replacement/diff.js';
+export { validateReferences } from './foundation/replacement/integrity.js';
+export type { IntegrityIssue } from './foundation/replacement/integrity.js';
+export { suggestMapping } from './foundation/replacement/mapping.js';
+export type { StructureMapping } from './foundation/replacement/mapping.js';
+export {
+  planIedReplacement,
+  planReplacementJob,
+  transferKinds,
+} from './foundation/replacement/replacement.js';
+export type {
+  ReplacementOptions,
+  ReplacementPairing,
+  ReplacementPlan,
+  TransferKind,
+} from './foundation/replacement/replacement.js';
+export {
+  reportsToCsv,
+  reportsToJson,
+} from './foundation/replacement/report.js';
+export type {
+  OrphanedInputs,
+  ReplacementReport,
+} from './foundation/replacement/report.js';
+
+const transferStorageKey = 'oscd-replace-ieds-transfer';
+
+const keepValuesStorageKey = 'oscd-replace-ieds-keep-values';
+const removeTypesStorageKey = 'oscd-replace-ieds-remove-unused-types';
+const historyWhoStorageKey = 'oscd-replace-ieds-history-who';
 
-interface storedInput {
-  id: string;
-  input: Element;
+/** @returns the element kinds to transfer as chosen in the previous run. */
+function loadTransfer(): TransferKind[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(transferStorageKey) ?? '');
+    if (Array.isArray(stored))
+      return transferKinds.filter(kind => stored.includes(kind));
+  } catch {
+    // nothing or garbage stored
+  }
+  return defaultTransfer;
+}
+
+/** Offers `content` for download as a file named `fileName`. */
+function download(content: string, type: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function compatibilityLabel(compatibility: Compatibility): string {
+  return {
+    identical: msg('Identical data model'),
+    superset: msg('Template data model is a superset'),
+    subset: msg('Template data model is a subset'),
+    incompatible: msg('Incompatible data model'),
+  }[compatibility];
+}
+
+/** @returns the `type`, `manufacturer` and `configVersion` of `ied`. */
+function iedDetails(ied: Element): string {
+  return ['type', 'manufacturer', 'configVersion']
+    .map(name => ied.getAttribute(name))
+    .filter(value => value)
+    .join(' — ');
+}
+
+/** @returns a subheading followed by one list item per entry, if any. */
+function renderEntries(heading: string, entries: string[]): TemplateResult {
+  if (entries.length === 0) return html``;
+  return html`<mwc-list-item class="heading" noninteractive
+      >${heading}</mwc-list-item
+    >
+    ${entries.map(
+      entry =>
+        html`<mwc-list-item class="entry" noninteractive
+          >${entry}</mwc-list-item
+        >`
+    )}`;
 }
 
 export default class ReplaceIEDs extends LitElement {
@@ -38,12 +170,37 @@ export default class ReplaceIEDs extends LitElement {
   @property({ attribute: false })
   docName!: string;
 
+  /** Incremented by [[`OpenSCD`]] on every edit, undo and redo. */
+  @property({ attribute: false })
+  editCount = -1;
+
+  /** The template whose data model the cached compatibilities refer to. */
+  private templateModel?: { ied: Element; model: Set<string> };
+
+  /** The compatibility of each candidate IED with `templateModel`. */
+  private compatibilities = new WeakMap<Element, Compatibility>();
+
+  /** IEDs of the file last imported to serve as template. */
+  @state()
+  importedIeds: Element[] = [];
+
+  /** The name of the file last imported to serve as template. */
+  @state()
+  importedFileName = '';
+
+  /** Why the file last chosen could not be imported. */
+  @state()
+  importError = '';
+
   @state()
   private get iedList(): Element[] {
     return this.doc
-      ? Array.from(this.doc.querySelectorAll(':root > IED')).sort((a, b) =>
-          compareNames(a, b)
-        )
+      ? [
+          ...Array.from(this.doc.querySelectorAll(':root > IED')).sort((a, b) =>
+            compareNames(a, b)
+          ),
+          ...[...this.importedIeds].sort((a, b) => compareNames(a, b)),
+        ]
       : [];
   }
 
@@ -55,166 +212,964 @@ export default class ReplaceIEDs extends LitElement {
     // When there is no IED selected, or the selected IED has no parent (IED has been removed)
     // select the first IED from the List.
     if (this.selectedIEDs.length >= 1) {
-      return this.iedList.find(element => {
-        const iedName = getNameAttribute(element);
-        return this.selectedIEDs[0] === iedName;
-      });
+      return this.iedList.find(
+        element => this.selectedIEDs[0] === this.templateKey(element)
+      );
     }
     return undefined;
   }
 
+  /** Element kinds kept from the replaced IEDs instead of the template. */
+  @state()
+  transfer: TransferKind[] = loadTransfer();
+
+  /** Whether the replaced IEDs' `DOI`/`DAI` values are kept. */
+  @state()
+  keepInstanceValues = localStorage.getItem(keepValuesStorageKey) === 'true';
+
+  /** Who is recorded in the `Hitem` of the replacement. */
+  @state()
+  historyWho = localStorage.getItem(historyWhoStorageKey) ?? '';
+
+  /** Why the replacement is made, as recorded in its `Hitem`. */
+  @state()
+  historyWhy = '';
+
+  /** Whether data types no longer used after the replacement are removed. */
+  @state()
+  removeUnusedTypes = localStorage.getItem(removeTypesStorageKey) === 'true';
+
+  /** Whether only IEDs of the template's `type` are offered for replacement. */
+  @state()
+  sameType = false;
+
+  /** Whether only IEDs of the template's `manufacturer` are offered. */
+  @state()
+  sameManufacturer = false;
+
+  /** The IEDs to replace as selected in the dialog. */
+  targetIeds: Element[] = [];
+
+  /** Templates and their targets added to the job besides the selection. */
+  @state()
+  pairings: ReplacementPairing[] = [];
+
+  /** Names of target IEDs the user chose not to replace after all. */
+  @state()
+  abortedIeds: string[] = [];
+
+  /** Where the user chose to move `Inputs` the template has no place for. */
+  @state()
+  relocations: Record<string, string> = {};
+
+  /** The orphaned `Inputs` currently being relocated and their IED's name. */
+  @state()
+  relocating?: { iedName: string; orphan: OrphanedInputs };
+
+  /** Pairs logical devices and nodes of the target IEDs with the template's. */
+  @state()
+  mapping: StructureMapping = {};
+
+  /** The logical device or node whose counterpart is being chosen. */
+  @state()
+  mappingSource?: Element;
+
+  /** The IED compared with the template and the differences found. */
+  @state()
+  diff?: { ied: Element; entries: DiffEntry[] };
+
+  /** The unresolved references found by the last validation. */
+  @state()
+  issues: IntegrityIssue[] = [];
+
+  /** The issue whose offending element is shown. */
+  @state()
+  shownIssue?: IntegrityIssue;
+
+  /**
+   * The reports of the replacement last applied and the references found
+   * unresolved right after, kept for export.
+   */
+  @state()
+  lastRun?: { reports: ReplacementReport[]; issues: string[] };
+
+  /** The replacement awaiting confirmation in the preview. */
+  @state()
+  plan?: ReplacementPlan;
+
   @query('#dialog') dialogUI?: Dialog;
 
+  @query('#previewDialog') previewDialogUI?: Dialog;
+
+  @query('#relocateDialog') relocateDialogUI?: Dialog;
+
+  @query('#mappingDialog') mappingDialogUI?: Dialog;
+
+  @query('#validationDialog') validationDialogUI?: Dialog;
+
+  @query('#diffDialog') diffDialogUI?: Dialog;
+
+  @query('#importErrorDialog') importErrorDialogUI?: Dialog;
+
+  @query('#counterpartDialog') counterpartDialogUI?: Dialog;
+
   @query('#replaceIeds') replaceIedsUI?: OscdFilteredList;
 
+  @query('#templateFile') templateFileUI?: HTMLInputElement;
+
+  @queryAll('oscd-checkbox.transfer')
+  // eslint-disable-next-line no-undef
+  transferUI!: NodeListOf<OscdCheckbox>;
+
+  @query('#keepInstanceValues') keepInstanceValuesUI?: OscdCheckbox;
+
+  @query('#removeUnusedTypes') removeUnusedTypesUI?: OscdCheckbox;
+
+  @query('#historyWho') historyWhoUI?: TextField;
+
+  @query('#historyWhy') historyWhyUI?: TextField;
+
+  protected willUpdate(changedProperties: PropertyValues): void {
+    if (changedProperties.has('doc') || changedProperties.has('editCount'))
+      this.clearCompatibilities();
+  }
+
+  private clearCompatibilities(): void {
+    this.templateModel = undefined;
+    this.compatibilities = new WeakMap();
+  }
+
+  /**
+   * @returns how the data model of `ied` compares to that of the template,
+   * computed once per template and candidate.
+   */
+  private compatibility(ied: Element): Compatibility | undefined {
+    const template = this.selectedIed;
+    if (!template) return undefined;
+
+    if (this.templateModel?.ied !== template) {
+      this.clearCompatibilities();
+      this.templateModel = { ied: template, model: dataModel(template) };
+    }
+    if (!this.compatibilities.has(ied))
+      this.compatibilities.set(
+        ied,
+        compareModels(this.templateModel!.model, dataModel(ied))
+      );
+    return this.compatibilities.get(ied);
+  }
+
   async run() {
     this.dialogUI?.show();
   }
 
-  private replaceIeds(): void {
-    const selected = Array.isArray(this.replaceIedsUI?.selected)
-      ? this.replaceIedsUI?.selected
-      : [this.replaceIedsUI?.selected];
+  /**
+   * @returns the name of `ied` within the template selector, prefixed with
+   * the name of its file if imported.
+   */
+  private templateKey(ied: Element): string {
+    const name = getNameAttribute(ied) ?? '';
+    return ied.ownerDocument === this.doc
+      ? name
+      : `${this.importedFileName}: ${name}`;
+  }
 
-    if (!this.replaceIedsUI?.selected || !selected || !this.selectedIed) return;
+  /** Loads the IEDs of the file chosen in `event` as template candidates. */
+  private async importTemplate(event: Event): Promise<void> {
+    const input = <HTMLInputElement>event.target;
+    const file = input.files?.item(0);
+    if (!file) return;
 
-    const inputsSections = new Map<string, [storedInput]>();
-    const gseControlSections = new Map<string, [storedInput]>();
-    const dataSetSections = new Map<string, [storedInput]>();
+    const templateDoc = new DOMParser().parseFromString(
+      await file.text(),
+      'application/xml'
+    );
+    // allows importing the same file again
+    input.value = '';
 
-    selected.forEach(iedListItem => {
-      const { id } = iedListItem!.dataset;
+    const ieds = Array.from(templateDoc.querySelectorAll(':root > IED'));
+    if (templateDoc.querySelector('parsererror') || ieds.length === 0) {
+      this.importError = templateDoc.querySelector('parsererror')
+        ? msg(str`${file.name} is no valid SCL file.`)
+        : msg(str`${file.name} contains no IED.`);
+      this.importErrorDialogUI?.show();
+      return;
+    }
 
-      const currentIed = this.doc.querySelector(selector('IED', id!))!;
+    this.importedFileName = file.name;
+    this.importedIeds = ieds;
+    this.selectedIEDs = [this.templateKey(this.importedIeds[0])];
+    this.requestUpdate('selectedIed');
+  }
 
-      const currentIedName = currentIed.getAttribute('name')!;
+  /** @returns the file name, without extension, of the exported report. */
+  private reportName(): string {
+    const docName = (this.docName ?? 'document').replace(/\.[^.]*$/, '');
+    return `${docName}-replacement`;
+  }
 
-      Array.from(
-        currentIed.querySelectorAll(':scope LN > Inputs, :scope LN0 > Inputs')
-      ).forEach(inputSection => {
-        const storedInputSection: storedInput = {
-          id: `${identity(inputSection.parentElement)}`,
-          input: <Element>this.doc.importNode(inputSection, true),
-        };
+  /**
+   * @returns the IEDs offered for replacement by the template, except those
+   * already part of the job.
+   */
+  private candidates(): Element[] {
+    const template = this.selectedIed;
+    const matches = (ied: Element, name: string) =>
+      ied.getAttribute(name) === template?.getAttribute(name);
+    const inJob = (ied: Element) =>
+      this.pairings.some(
+        pairing =>
+          pairing.templateIed === ied || pairing.targetIeds.includes(ied)
+      );
 
-        if (inputsSections.has(currentIedName!)) {
-          inputsSections.get(currentIedName)!.push(storedInputSection);
-        } else {
-          inputsSections.set(currentIedName!, [storedInputSection]);
-        }
-      });
+    return Array.from(this.doc.querySelectorAll(':root > IED')).filter(
+      ied =>
+        ied !== template &&
+        !inJob(ied) &&
+        (!this.sameType || matches(ied, 'type')) &&
+        (!this.sameManufacturer || matches(ied, 'manufacturer'))
+    );
+  }
 
-      Array.from(
-        currentIed.querySelectorAll(':scope LN0 > GSEControl')
-      ).forEach(gseControl => {
-        const storedGSEControl: storedInput = {
-          id: `${identity(gseControl.parentElement)}`,
-          input: <Element>this.doc.importNode(gseControl, true),
-        };
-
-        if (gseControlSections.has(currentIedName!)) {
-          gseControlSections.get(currentIedName)!.push(storedGSEControl);
-        } else {
-          gseControlSections.set(currentIedName!, [storedGSEControl]);
-        }
-      });
+  /** @returns the IEDs selected for replacement in the dialog. */
+  private selectedTargets(): Element[] {
+    if (!this.replaceIedsUI?.selected) return [];
+    const selected = Array.isArray(this.replaceIedsUI.selected)
+      ? this.replaceIedsUI.selected
+      : [this.replaceIedsUI.selected];
 
-      Array.from(currentIed.querySelectorAll(':scope LN0 > DataSet')).forEach(
-        ds => {
-          const storedDs: storedInput = {
-            id: `${identity(ds.parentElement)}`,
-            input: <Element>this.doc.importNode(ds, true),
-          };
-
-          if (dataSetSections.has(currentIedName!)) {
-            dataSetSections.get(currentIedName)!.push(storedDs);
-          } else {
-            dataSetSections.set(currentIedName!, [storedDs]);
-          }
-        }
-      );
+    return selected
+      .map(iedListItem =>
+        this.doc.querySelector(selector('IED', iedListItem.dataset.id!))
+      )
+      .filter((ied): ied is Element => ied !== null);
+  }
+
+  /**
+   * Adds the template and the IEDs selected for it to the job, clearing the
+   * selection and mapping for the next template.
+   */
+  private addPairing(): void {
+    const targetIeds = this.selectedTargets();
+    if (!this.selectedIed || targetIeds.length === 0) return;
+
+    this.pairings = [
+      ...this.pairings,
+      { templateIed: this.selectedIed, targetIeds, mapping: this.mapping },
+    ];
+    this.mapping = {};
+    this.replaceIedsUI?.items.forEach(item => {
+      // eslint-disable-next-line no-param-reassign
+      item.selected = false;
     });
+  }
 
-    selected.forEach(iedListItem => {
-      const { id } = iedListItem!.dataset;
-      const currentIed = this.doc.querySelector(selector('IED', id!))!;
-      const currentIedName = currentIed.getAttribute('name')!;
-
-      const editActions: (Remove | Insert)[] = [];
-
-      const newIed = <Element>this.selectedIed?.cloneNode(true);
-      newIed.setAttribute('name', currentIedName);
-
-      const removeIed: Remove = { node: currentIed };
-      editActions.push(removeIed);
-
-      const insertIed: Insert = {
-        parent: this.doc.documentElement,
-        node: newIed,
-        reference: currentIed.previousElementSibling,
-      };
-      editActions.push(insertIed);
-      this.dispatchEvent(newEditEvent(editActions));
-
-      const inputActions: (Remove | Insert)[] = [];
-
-      // remove and replace input sections
-      inputsSections.get(currentIedName)?.forEach(transferInput => {
-        // eslint-disable-next-line no-shadow
-        const { id, input } = transferInput;
-        const lN =
-          this.doc.querySelector(selector('LN', <string>id)) ??
-          this.doc.querySelector(selector('LN0', <string>id));
-        if (lN) {
-          inputActions.push({
-            node: lN.querySelector('Inputs')!,
-          });
-          inputActions.push({
-            parent: <Element>lN,
-            node: input,
-            reference: lN.querySelector('Inputs')!.nextElementSibling,
-          });
-        }
-      });
+  /** @returns the pairings added to the job followed by the selected one. */
+  private jobPairings(): ReplacementPairing[] {
+    if (!this.selectedIed || this.targetIeds.length === 0) return this.pairings;
+    return [
+      ...this.pairings,
+      {
+        templateIed: this.selectedIed,
+        targetIeds: this.targetIeds,
+        mapping: this.mapping,
+      },
+    ];
+  }
 
-      gseControlSections.get(currentIedName)?.forEach(transferInput => {
-        // eslint-disable-next-line no-shadow
-        const { id, input } = transferInput;
-        const lN0 = <Element>this.doc.querySelector(selector('LN0', id));
-        lN0.querySelectorAll(':scope > GSEControl').forEach(gseControl =>
-          inputActions.push({
-            node: gseControl!,
-          })
-        );
-
-        inputActions.push({
-          parent: lN0,
-          node: input,
-          reference: Array.from(lN0.querySelectorAll('GSEControl')).slice(-1)[0]
-            .nextElementSibling,
-        });
-      });
+  private previewReplacement(): void {
+    this.transfer = Array.from(this.transferUI)
+      .filter(checkbox => checkbox.checked)
+      .map(checkbox => <TransferKind>checkbox.dataset.kind);
+    localStorage.setItem(transferStorageKey, JSON.stringify(this.transfer));
+    this.keepInstanceValues = this.keepInstanceValuesUI?.checked ?? false;
+    localStorage.setItem(keepValuesStorageKey, `${this.keepInstanceValues}`);
+    this.removeUnusedTypes = this.removeUnusedTypesUI?.checked ?? false;
+    localStorage.setItem(removeTypesStorageKey, `${this.removeUnusedTypes}`);
+    this.historyWho = this.historyWhoUI?.value ?? '';
+    localStorage.setItem(historyWhoStorageKey, this.historyWho);
+    this.historyWhy = this.historyWhyUI?.value ?? '';
+
+    this.targetIeds = this.selectedTargets();
+    if (this.jobPairings().length === 0) return;
+
+    this.abortedIeds = [];
+    this.relocations = {};
+    this.planReplacement();
+    this.dialogUI?.close();
+    this.previewDialogUI?.show();
+  }
+
+  /**
+   * Checks the references within the document and lists the issues found,
+   * if any or if `always`.
+   */
+  private validate(always = true): void {
+    this.issues = validateReferences(this.doc);
+    this.shownIssue = undefined;
+    if (always || this.issues.length > 0) this.validationDialogUI?.show();
+  }
+
+  private showDiff(ied: Element): void {
+    if (!this.selectedIed) return;
+    this.diff = { ied, entries: diffIeds(this.selectedIed, ied) };
+    this.diffDialogUI?.show();
+  }
+
+  private editMapping(): void {
+    this.targetIeds = this.selectedTargets();
+    this.dialogUI?.close();
+    this.mappingDialogUI?.show();
+  }
+
+  private suggestMapping(): void {
+    this.mapping = this.targetIeds.reduce(
+      (mapping, targetIed) =>
+        suggestMapping(targetIed, this.selectedIed!, mapping),
+      this.mapping
+    );
+  }
 
-      dataSetSections.get(currentIedName)?.forEach(transferInput => {
-        // eslint-disable-next-line no-shadow
-        const { id, input } = transferInput;
-        const lN0 = <Element>this.doc.querySelector(selector('LN0', id));
-        lN0.querySelectorAll(':scope > DataSet').forEach(ds =>
-          inputActions.push({
-            node: ds!,
-          })
-        );
-
-        inputActions.push({
-          parent: lN0,
-          node: input,
-          reference: Array.from(lN0.querySelectorAll('DataSet')).slice(-1)[0]
-            .nextElementSibling,
-        });
+  /** Pairs the mapping source with `counterpart` or unpairs it if undefined. */
+  private mapTo(counterpart?: Element): void {
+    if (!this.mappingSource) return;
+    const mapping = { ...this.mapping };
+    if (counterpart)
+      mapping[structurePath(this.mappingSource)] = structurePath(counterpart);
+    else delete mapping[structurePath(this.mappingSource)];
+    this.mapping = mapping;
+
+    this.mappingSource = undefined;
+    this.counterpartDialogUI?.close();
+  }
+
+  /** Plans the replacement of the target IEDs not aborted by the user. */
+  private planReplacement(): void {
+    this.plan = planReplacementJob(
+      this.doc,
+      this.jobPairings().map(pairing => ({
+        ...pairing,
+        targetIeds: pairing.targetIeds.filter(
+          ied => !this.abortedIeds.includes(ied.getAttribute('name') ?? '')
+        ),
+      })),
+      {
+        transfer: this.transfer,
+        keepInstanceValues: this.keepInstanceValues,
+        relocateInputs: this.relocations,
+        removeUnusedTypes: this.removeUnusedTypes,
+        history: { who: this.historyWho, why: this.historyWhy },
+      }
+    );
+  }
+
+  /**
+   * Resolves the orphaned `Inputs` being relocated by moving them to the
+   * logical node with the `identity` `anyLn` or, if undefined, by not
+   * replacing their IED at all.
+   */
+  private relocate(anyLn?: string): void {
+    if (!this.relocating) return;
+    const { iedName, orphan } = this.relocating;
+
+    if (anyLn)
+      this.relocations = { ...this.relocations, [orphan.anyLn]: anyLn };
+    else this.abortedIeds = [...this.abortedIeds, iedName];
+
+    this.relocating = undefined;
+    this.relocateDialogUI?.close();
+    this.planReplacement();
+  }
+
+  private applyReplacement(): void {
+    if (!this.plan) return;
+
+    // a single compound edit so that one undo restores the whole run
+    this.dispatchEvent(newEditEvent(this.plan.edits));
+    const { reports } = this.plan;
+    this.plan = undefined;
+    this.pairings = [];
+    this.historyWhy = '';
+
+    this.validate(false);
+    this.lastRun = {
+      reports,
+      issues: this.issues.map(issue => issue.message),
+    };
+  }
+
+  private renderTransferOptions(): TemplateResult {
+    const helpers: Record<TransferKind, string> = {
+      Inputs: msg('Subscriptions'),
+      GSEControl: msg('GOOSE control blocks'),
+      DataSet: msg('Data sets'),
+      ReportControl: msg('Report control blocks'),
+      SampledValueControl: msg('Sampled value control blocks'),
+      LogControl: msg('Log control blocks and logs'),
+    };
+
+    return html`<div id="transferOptions">
+      <h3>${msg('Keep from the replaced IEDs')}</h3>
+      ${transferKinds.map(
+        kind => html`<oscd-checkbox
+          class="transfer"
+          data-kind="${kind}"
+          label="${kind}"
+          helper="${helpers[kind]}"
+          .checked=${this.transfer.includes(kind)}
+        ></oscd-checkbox>`
+      )}
+      <oscd-checkbox
+        id="keepInstanceValues"
+        label="DOI/DAI"
+        helper="${msg('Instance values such as settings')}"
+        .checked=${this.keepInstanceValues}
+      ></oscd-checkbox>
+      <h3>${msg('Clean up')}</h3>
+      <oscd-checkbox
+        id="removeUnusedTypes"
+        label="DataTypeTemplates"
+        helper="${msg('Remove data types no longer used')}"
+        .checked=${this.removeUnusedTypes}
+      ></oscd-checkbox>
+    </div>`;
+  }
+
+  private renderCandidateFilters(): TemplateResult {
+    return html`<div id="candidateFilters">
+      <mwc-formfield label="${msg('Same type as the template')}"
+        ><mwc-checkbox
+          id="sameType"
+          ?checked=${this.sameType}
+          ?disabled=${!this.selectedIed}
+          @change="${(event: Event) => {
+            this.sameType = (<Checkbox>event.target).checked;
+          }}"
+        ></mwc-checkbox
+      ></mwc-formfield>
+      <mwc-formfield label="${msg('Same manufacturer as the template')}"
+        ><mwc-checkbox
+          id="sameManufacturer"
+          ?checked=${this.sameManufacturer}
+          ?disabled=${!this.selectedIed}
+          @change="${(event: Event) => {
+            this.sameManufacturer = (<Checkbox>event.target).checked;
+          }}"
+        ></mwc-checkbox
+      ></mwc-formfield>
+    </div>`;
+  }
+
+  /** @returns a list item offering `ied`, placed in the bay `bay`. */
+  private renderCandidate(ied: Element, bay: string): TemplateResult {
+    const compatibility = this.compatibility(ied);
+    const descr = getDescriptionAttribute(ied);
+    const details = iedDetails(ied);
+    return html`<mwc-check-list-item
+      data-id="${identity(ied)}"
+      data-name="${ied.getAttribute('name') ?? nothing}"
+      data-desc="${descr ?? nothing}"
+      data-type="${ied.getAttribute('type') ?? nothing}"
+      data-manufacturer="${ied.getAttribute('manufacturer') ?? nothing}"
+      data-config-version="${ied.getAttribute('configVersion') ?? nothing}"
+      data-bay="${bay}"
+      value="${bay}"
+      class="${compatibility ?? nothing}"
+      ?twoline=${!!(details || compatibility)}
+      left
+      hasMeta
+    >
+      ${ied.getAttribute('name')} ${descr ? html` (${descr})` : nothing}
+      <span slot="secondary"
+        >${details} ${details && compatibility ? html`&middot;` : nothing}
+        ${compatibility
+          ? html`<span class="compatibility"
+              >${compatibilityLabel(compatibility)}</span
+            >`
+          : nothing}</span
+      >
+      <mwc-icon-button
+        slot="meta"
+        icon="difference"
+        title="${msg('Compare with the template')}"
+        ?disabled=${!this.selectedIed}
+        @click="${(event: Event) => {
+          // comparing does not toggle the selection
+          event.stopPropagation();
+          this.showDiff(ied);
+        }}"
+      ></mwc-icon-button>
+    </mwc-check-list-item>`;
+  }
+
+  /** @returns the IEDs of `group` below a heading selecting all of them. */
+  private renderBayGroup(group: BayGroup): TemplateResult {
+    const bay = group.bay ? String(identity(group.bay)) : '';
+    const bayItems = () =>
+      (this.replaceIedsUI?.items ?? []).filter(
+        item => item.dataset.bay === bay && !item.classList.contains('hidden')
+      );
+    const selectedCount = bayItems().filter(item => item.selected).length;
+    const allSelected =
+      selectedCount > 0 && selectedCount === bayItems().length;
+
+    return html`<mwc-list-item class="bay" value="${bay}" noninteractive hasMeta
+        >${group.bay ? bay : msg('Unassigned')}
+        <mwc-checkbox
+          slot="meta"
+          .checked=${allSelected}
+          .indeterminate=${selectedCount > 0 && !allSelected}
+          @change="${(event: Event) => {
+            const { checked } = <Checkbox>event.target;
+            bayItems().forEach(item => {
+              // eslint-disable-next-line no-param-reassign
+              item.selected = checked;
+            });
+          }}"
+        ></mwc-checkbox
+      ></mwc-list-item>
+      ${repeat(
+        group.ieds,
+        ied => identity(ied),
+        ied => this.renderCandidate(ied, bay)
+      )}`;
+  }
+
+  /** @returns the pairings added to the job, each of which may be removed. */
+  private renderJob(): TemplateResult {
+    if (this.pairings.length === 0) return html``;
+    return html`<div id="job">
+      <h3>${msg('Job')}</h3>
+      <mwc-list>
+        ${this.pairings.map(
+          (pairing, index) => html`<mwc-list-item twoline hasMeta noninteractive
+            >${pairing.templateIed.getAttribute('name')}
+            <span slot="secondary"
+              >${pairing.targetIeds
+                .map(ied => ied.getAttribute('name'))
+                .join(', ')}</span
+            >
+            <mwc-icon-button
+              slot="meta"
+              icon="delete"
+              title="${msg('Remove from the job')}"
+              @click="${() => {
+                this.pairings = this.pairings.filter((_, i) => i !== index);
+              }}"
+            ></mwc-icon-button
+          ></mwc-list-item>`
+        )}
+      </mwc-list>
+    </div>`;
+  }
+
+  private renderHistoryOptions(): TemplateResult {
+    return html`<div id="historyOptions">
+      <h3>${msg('History')}</h3>
+      <mwc-textfield
+        id="historyWho"
+        label="${msg('Who')}"
+        .value=${this.historyWho}
+      ></mwc-textfield>
+      <mwc-textfield
+        id="historyWhy"
+        label="${msg('Why')}"
+        .value=${this.historyWhy}
+      ></mwc-textfield>
+    </div>`;
+  }
+
+  /** @returns the planned changes to the IED of `report` with their counts. */
+  private renderPreview(report: ReplacementReport): TemplateResult {
+    const { removed, inserted, transferred, remapped, warnings } = report;
+    return html`<mwc-list-item noninteractive twoline
+        >${msg(str`${report.iedName} with template ${report.templateName}`)}
+        <span slot="secondary"
+          >${msg(
+            str`${removed.length} removed, ${inserted.length} inserted, ${transferred.length} transferred, ${remapped.length} remapped, ${warnings.length} warnings`
+          )}</span
+        ></mwc-list-item
+      >
+      ${report.orphanedInputs.length > 0
+        ? html`<mwc-list-item class="heading" noninteractive
+            >${msg('Orphaned Inputs')}</mwc-list-item
+          >`
+        : nothing}
+      ${report.orphanedInputs.map(
+        orphan => html`<mwc-list-item
+          class="entry"
+          twoline
+          @click="${() => {
+            this.relocating = { iedName: report.iedName, orphan };
+            this.relocateDialogUI?.show();
+          }}"
+          >${orphan.anyLn}
+          <span slot="secondary"
+            >${msg(
+              str`${orphan.extRefs.length} ExtRefs are lost unless relocated`
+            )}</span
+          ></mwc-list-item
+        >`
+      )}
+      ${renderEntries(msg('Warnings'), warnings)}
+      ${renderEntries(msg('Removed'), removed)}
+      ${renderEntries(msg('Inserted'), inserted)}
+      ${renderEntries(msg('Transferred'), transferred)}
+      ${renderEntries(msg('Remapped'), remapped)}
+      <li divider role="separator"></li>`;
+  }
+
+  private renderAborted(iedName: string): TemplateResult {
+    return html`<mwc-list-item
+      twoline
+      @click="${() => {
+        this.abortedIeds = this.abortedIeds.filter(name => name !== iedName);
+        this.planReplacement();
+      }}"
+      >${iedName}
+      <span slot="secondary"
+        >${msg('Not replaced, select to replace after all')}</span
+      ></mwc-list-item
+    >`;
+  }
+
+  private renderRelocateDialog(): TemplateResult {
+    const iedName = this.relocating?.iedName ?? '';
+    const templateIed = this.jobPairings().find(pairing =>
+      pairing.targetIeds.some(ied => ied.getAttribute('name') === iedName)
+    )?.templateIed;
+    const templateName = templateIed?.getAttribute('name') ?? '';
+    // the new IED's logical nodes are those of the template under its name
+    const anyLns = Array.from(
+      templateIed?.querySelectorAll(
+        ':scope > AccessPoint > Server > LDevice > LN0, :scope > AccessPoint > Server > LDevice > LN'
+      ) ?? []
+    ).map(
+      anyLn => `${iedName}${String(identity(anyLn)).slice(templateName.length)}`
+    );
+
+    return html`<mwc-dialog
+      id="relocateDialog"
+      heading="${msg('Relocate Inputs')}"
+      @closed="${() => {
+        this.relocating = undefined;
+      }}"
+    >
+      <p>${this.relocating?.orphan.anyLn}</p>
+      <mwc-list>
+        ${this.relocating?.orphan.extRefs.map(
+          extRef => html`<mwc-list-item class="entry" noninteractive
+            >${extRef}</mwc-list-item
+          >`
+        )}
+        <li divider role="separator"></li>
+        <mwc-list-item @click="${() => this.relocate()}"
+          >${msg(str`Do not replace ${iedName}`)}</mwc-list-item
+        >
+        ${anyLns.map(
+          anyLn => html`<mwc-list-item @click="${() => this.relocate(anyLn)}"
+            >${anyLn}</mwc-list-item
+          >`
+        )}
+      </mwc-list>
+      <mwc-button
+        label="${msg('Cancel')}"
+        slot="secondaryAction"
+        dialogAction="close"
+      ></mwc-button>
+    </mwc-dialog>`;
+  }
+
+  private renderMappingDialog(): TemplateResult {
+    const templatePaths = (
+      this.selectedIed ? structureElements(this.selectedIed) : []
+    ).map(structurePath);
+    // one entry per path lacking a namesake in the template
+    const sources = new Map<string, Element>();
+    this.targetIeds
+      .flatMap(structureElements)
+      .filter(element => !templatePaths.includes(structurePath(element)))
+      .forEach(element => {
+        if (!sources.has(structurePath(element)))
+          sources.set(structurePath(element), element);
       });
 
-      this.dispatchEvent(newEditEvent(inputActions));
-    });
+    return html`<mwc-dialog
+      id="mappingDialog"
+      heading="${msg('Logical Node Mapping')}"
+      @closed="${(e: CustomEvent) => {
+        if (e.target === this.mappingDialogUI) this.dialogUI?.show();
+      }}"
+    >
+      <p>
+        ${msg(
+          'The logical devices and nodes of the selected IEDs the template has no namesake for. Select one to choose its counterpart in the template.'
+        )}
+      </p>
+      <mwc-list>
+        ${Array.from(sources).map(([path, element]) => {
+          const counterpart = this.selectedIed
+            ? findCounterpart(this.selectedIed, element, this.mapping)
+            : null;
+          return html`<mwc-list-item
+            twoline
+            @click="${() => {
+              this.mappingSource = element;
+              this.counterpartDialogUI?.show();
+            }}"
+            >${element.tagName} ${path}
+            <span slot="secondary"
+              >${counterpart
+                ? msg(str`Mapped to ${structurePath(counterpart)}`)
+                : msg('No counterpart, its contents are lost')}</span
+            ></mwc-list-item
+          >`;
+        })}
+      </mwc-list>
+      <mwc-button
+        label="${msg('Suggest')}"
+        slot="secondaryAction"
+        icon="auto_fix_high"
+        @click="${() => this.suggestMapping()}"
+      ></mwc-button>
+      <mwc-button
+        label="${msg('Clear')}"
+        slot="secondaryAction"
+        icon="clear"
+        @click="${() => {
+          this.mapping = {};
+        }}"
+      ></mwc-button>
+      <mwc-button
+        label="${msg('Done')}"
+        slot="primaryAction"
+        icon="done"
+        dialogAction="close"
+      ></mwc-button>
+    </mwc-dialog>`;
+  }
+
+  private renderCounterpartDialog(): TemplateResult {
+    const source = this.mappingSource;
+    const isLDevice = source?.tagName === 'LDevice';
+    const candidates = (
+      this.selectedIed ? structureElements(this.selectedIed) : []
+    ).filter(candidate => (candidate.tagName === 'LDevice') === isLDevice);
+
+    return html`<mwc-dialog
+      id="counterpartDialog"
+      heading="${msg(
+        str`Counterpart of ${source ? structurePath(source) : ''}`
+      )}"
+      @closed="${() => {
+        this.mappingSource = undefined;
+      }}"
+    >
+      <mwc-list>
+        <mwc-list-item @click="${() => this.mapTo()}"
+          >${msg('No counterpart')}</mwc-list-item
+        >
+        ${candidates.map(
+          candidate => html`<mwc-list-item
+            ?twoline=${!!candidate.getAttribute('desc')}
+            @click="${() => this.mapTo(candidate)}"
+            >${structurePath(candidate)}
+            <span slot="secondary"
+              >${candidate.getAttribute('desc')}</span
+            ></mwc-list-item
+          >`
+        )}
+      </mwc-list>
+      <mwc-button
+        label="${msg('Cancel')}"
+        slot="secondaryAction"
+        dialogAction="close"
+      ></mwc-button>
+    </mwc-dialog>`;
+  }
+
+  private renderDiffDialog(): TemplateResult {
+    const entries = this.diff?.entries ?? [];
+    const count = (kind: DiffKind) =>
+      entries.filter(entry => entry.kind === kind).length;
+    const values = (entry: DiffEntry, side: 'template' | 'target') => {
+      if (entry.kind !== 'changed') return nothing;
+      if (entry.attributes.length === 0) return msg('Content differs');
+      return entry.attributes.map(
+        attribute =>
+          html`<div>${attribute.name}: ${attribute[side] ?? '—'}</div>`
+      );
+    };
+
+    return html`<mwc-dialog
+      id="diffDialog"
+      heading="${msg('Comparison')}"
+      @closed="${(e: CustomEvent) => {
+        if (e.target === this.diffDialogUI) this.diff = undefined;
+      }}"
+    >
+      <p>
+        ${msg(
+          str`${count('added')} only in the template, ${count(
+            'removed'
+          )} only in the IED, ${count('changed')} changed`
+        )}
+      </p>
+      <table id="diff">
+        <tr>
+          <th>${msg('Element')}</th>
+          <th>${this.selectedIed?.getAttribute('name')}</th>
+          <th>${this.diff?.ied.getAttribute('name')}</th>
+        </tr>
+        ${entries.map(
+          entry => html`<tr class="${entry.kind}">
+            <td>${entry.tag} ${entry.path}</td>
+            <td>
+              ${entry.kind === 'removed' ? '—' : values(entry, 'template')}
+            </td>
+            <td>${entry.kind === 'added' ? '—' : values(entry, 'target')}</td>
+          </tr>`
+        )}
+      </table>
+      <mwc-button
+        label="${msg('Close')}"
+        slot="primaryAction"
+        icon="close"
+        dialogAction="close"
+      ></mwc-button>
+    </mwc-dialog>`;
+  }
+
+  private renderImportErrorDialog(): TemplateResult {
+    return html`<mwc-dialog
+      id="importErrorDialog"
+      heading="${msg('Import failed')}"
+    >
+      <p>${this.importError}</p>
+      <mwc-button
+        label="${msg('Close')}"
+        slot="primaryAction"
+        icon="close"
+        dialogAction="close"
+      ></mwc-button>
+    </mwc-dialog>`;
+  }
+
+  private renderValidationDialog(): TemplateResult {
+    // the element holding the unresolved reference of the issue clicked
+    const shownElement = this.shownIssue
+      ? new XMLSerializer().serializeToString(this.shownIssue.element)
+      : undefined;
+
+    return html`<mwc-dialog
+      id="validationDialog"
+      heading="${msg('Reference Validation')}"
+    >
+      ${this.issues.length === 0
+        ? html`<p>${msg('All references resolve.')}</p>`
+        : html`<p>
+              ${msg(str`${this.issues.length} references do not resolve.`)}
+            </p>
+            <mwc-list>
+              ${this.issues.map(
+                issue => html`<mwc-list-item
+                  class="entry"
+                  ?activated=${issue === this.shownIssue}
+                  @click="${() => {
+                    this.shownIssue =
+                      issue === this.shownIssue ? undefined : issue;
+                  }}"
+                  >${issue.message}</mwc-list-item
+                >`
+              )}
+            </mwc-list>
+            ${shownElement
+              ? html`<pre id="issueElement">${shownElement}</pre>`
+              : nothing}`}
+      <mwc-button
+        label="${msg('Close')}"
+        slot="primaryAction"
+        icon="close"
+        dialogAction="close"
+      ></mwc-button>
+    </mwc-dialog>`;
+  }
+
+  /** @returns buttons downloading `reports` and `issues` as JSON or CSV. */
+  private renderExport(
+    reports: ReplacementReport[],
+    issues: string[]
+  ): TemplateResult {
+    return html`<div class="export">
+      <mwc-button
+        label="JSON"
+        icon="download"
+        @click="${() =>
+          download(
+            reportsToJson(reports, this.docName, issues),
+            'application/json',
+            `${this.reportName()}.json`
+          )}"
+      ></mwc-button>
+      <mwc-button
+        label="CSV"
+        icon="download"
+        @click="${() =>
+          download(
+            reportsToCsv(reports, issues),
+            'text/csv',
+            `${this.reportName()}.csv`
+          )}"
+      ></mwc-button>
+    </div>`;
+  }
+
+  /** @returns the outcome of the last replacement applied, for export. */
+  private renderLastRun(): TemplateResult {
+    if (!this.lastRun) return html``;
+    const { reports, issues } = this.lastRun;
+    return html`<div id="lastRun">
+      <h3>${msg('Last replacement')}</h3>
+      <p>
+        ${msg(
+          str`${reports.length} IEDs replaced, ${issues.length} references do not resolve.`
+        )}
+      </p>
+      ${this.renderExport(reports, issues)}
+    </div>`;
+  }
+
+  private renderPreviewDialog(): TemplateResult {
+    return html`<mwc-dialog
+      id="previewDialog"
+      heading="${msg('Replacement Preview')}"
+      scrimClickAction=""
+    >
+      ${this.renderExport(this.plan?.reports ?? [], [])}
+      <mwc-list>
+        ${this.plan?.reports.map(report => this.renderPreview(report))}
+        ${this.abortedIeds.map(iedName => this.renderAborted(iedName))}
+      </mwc-list>
+      <mwc-button
+        label="${msg('Back')}"
+        slot="secondaryAction"
+        icon="arrow_back"
+        @click="${() => {
+          this.previewDialogUI?.close();
+          this.dialogUI?.show();
+        }}"
+      ></mwc-button>
+      <mwc-button
+        label="${msg('Confirm')}"
+        slot="primaryAction"
+        icon="done"
+        ?disabled=${!this.plan?.edits.length}
+        @click="${() => {
+          this.applyReplacement();
+          this.previewDialogUI?.close();
+        }}"
+      ></mwc-button>
+    </mwc-dialog>`;
   }
 
   private renderIedSelector(): TemplateResult {
@@ -229,12 +1184,14 @@ export default class ReplaceIEDs extends LitElement {
         }}"
       >
         ${this.iedList.map(ied => {
-          const name = getNameAttribute(ied) ?? 'Unknown Name';
+          const name = this.templateKey(ied) || 'Unknown Name';
           const descr = getDescriptionAttribute(ied);
           const type = ied.getAttribute('type');
           const manufacturer = ied.getAttribute('manufacturer');
           return html` <mwc-radio-list-item
             value="${name}"
+            data-type="${type ?? nothing}"
+            data-manufacturer="${manufacturer ?? nothing}"
             ?twoline="${!!(type && manufacturer)}"
             ?selected="${this.selectedIEDs?.includes(name ?? '')}"
           >
@@ -246,9 +1203,21 @@ export default class ReplaceIEDs extends LitElement {
           </mwc-radio-list-item>`;
         })}
       </oscd-filter-button>
+      <mwc-icon-button
+        icon="file_open"
+        title="${msg('Import template from file')}"
+        @click="${() => this.templateFileUI?.click()}"
+      ></mwc-icon-button>
+      <input
+        id="templateFile"
+        type="file"
+        accept=".icd,.cid,.iid,.scd"
+        hidden
+        @change="${(event: Event) => this.importTemplate(event)}"
+      />
       <h2>
         ${this.selectedIed
-          ? getNameAttribute(this.selectedIed)
+          ? this.templateKey(this.selectedIed)
           : 'No IED Selected'}
         (${this.selectedIed?.getAttribute('type') ?? 'Unknown Type'})
       </h2>
@@ -257,46 +1226,68 @@ export default class ReplaceIEDs extends LitElement {
 
   render(): TemplateResult {
     if (!this.doc) return html``;
-    return html`<mwc-dialog id="dialog" heading="${msg('Replace IEDs')}">
-      <p>
-        ${msg(
-          'This plugin replaces IEDs with a template, transferring ExtRef elements.'
-        )}
-        ${msg('It assumes the data models are compatible.')}
-      </p>
-      ${this.renderIedSelector()}
-      <oscd-filtered-list id="replaceIeds" multi>
-        ${Array.from(this.doc.querySelectorAll('IED'))
-          .filter(
-            candidateIed =>
-              candidateIed.getAttribute('name') !==
-              this.selectedIed?.getAttribute('name')
-          )
-          .map(
-            ied => html`<mwc-check-list-item data-id="${identity(ied)}">
-              ${ied.getAttribute('name')}</mwc-check-list-item
-            >`
+    return html`${this.renderPreviewDialog()}${this.renderRelocateDialog()}${this.renderMappingDialog()}${this.renderCounterpartDialog()}${this.renderValidationDialog()}${this.renderDiffDialog()}${this.renderImportErrorDialog()}<mwc-dialog
+        id="dialog"
+        heading="${msg('Replace IEDs')}"
+      >
+        <p>
+          ${msg(
+            'This plugin replaces IEDs with a template, transferring ExtRef elements.'
           )}
-      </oscd-filtered-list>
-      <mwc-button
-        label="${msg('Close')}"
-        slot="secondaryAction"
-        icon="close"
-        @click="${() => {
-          this.dialogUI?.close();
-        }}"
-      ></mwc-button>
-      <mwc-button
-        label="${msg('Apply')}"
-        slot="primaryAction"
-        ?disabled=${!this.selectedIed}
-        icon="start"
-        @click="${() => {
-          this.replaceIeds();
-          this.dialogUI?.close();
-        }}"
-      ></mwc-button>
-    </mwc-dialog>`;
+          ${msg(
+            'The data model of each IED is compared to that of the template.'
+          )}
+        </p>
+        ${this.renderIedSelector()} ${this.renderTransferOptions()}
+        ${this.renderHistoryOptions()} ${this.renderJob()}
+        ${this.renderLastRun()} ${this.renderCandidateFilters()}
+        <oscd-filtered-list
+          id="replaceIeds"
+          searchFieldLabel="${msg(
+            'Search, e.g. REL*, /^P[0-9]+$/, -Q01 or type:REL670'
+          )}"
+          multi
+          @selected="${() => this.requestUpdate()}"
+        >
+          ${repeat(
+            groupByBay(this.doc, this.candidates()),
+            group => (group.bay ? identity(group.bay) : ''),
+            group => this.renderBayGroup(group)
+          )}
+        </oscd-filtered-list>
+        <mwc-button
+          label="${msg('Map logical nodes')}"
+          icon="alt_route"
+          ?disabled=${!this.selectedIed}
+          @click="${() => this.editMapping()}"
+        ></mwc-button>
+        <mwc-button
+          label="${msg('Add to job')}"
+          icon="playlist_add"
+          ?disabled=${!this.selectedIed}
+          @click="${() => this.addPairing()}"
+        ></mwc-button>
+        <mwc-button
+          label="${msg('Validate references')}"
+          icon="rule"
+          @click="${() => this.validate()}"
+        ></mwc-button>
+        <mwc-button
+          label="${msg('Close')}"
+          slot="secondaryAction"
+          icon="close"
+          @click="${() => {
+            this.dialogUI?.close();
+          }}"
+        ></mwc-button>
+        <mwc-button
+          label="${msg('Apply')}"
+          slot="primaryAction"
+          ?disabled=${!this.selectedIed && this.pairings.length === 0}
+          icon="start"
+          @click="${() => this.previewReplacement()}"
+        ></mwc-button>
+      </mwc-dialog>`;
   }
 
   static styles = css`
@@ -309,6 +1300,84 @@ export default class ReplaceIEDs extends LitElement {
       display: flex;
     }
 
+    .export {
+      display: flex;
+      justify-content: flex-end;
+    }
+
+    #transferOptions,
+    #historyOptions {
+      display: flex;
+      flex-direction: column;
+    }
+
+    #historyOptions {
+      gap: 8px;
+    }
+
+    mwc-list-item[noninteractive] {
+      font-weight: 500;
+    }
+
+    mwc-check-list-item mwc-icon-button {
+      --mdc-icon-button-size: 32px;
+      --mdc-icon-size: 20px;
+    }
+
+    #diff {
+      border-collapse: collapse;
+      font-family: 'Roboto', sans-serif;
+    }
+
+    #diff th,
+    #diff td {
+      padding: 4px 8px;
+      text-align: left;
+      vertical-align: top;
+      border-bottom: 1px solid rgba(0, 0, 0, 0.12);
+    }
+
+    #diff tr.added {
+      background-color: rgba(0, 128, 0, 0.08);
+    }
+
+    #diff tr.removed {
+      background-color: rgba(176, 0, 32, 0.08);
+    }
+
+    mwc-list-item.bay mwc-checkbox,
+    #job mwc-icon-button {
+      pointer-events: auto;
+    }
+
+    #candidateFilters {
+      display: flex;
+      flex-wrap: wrap;
+    }
+
+    mwc-check-list-item.incompatible .compatibility {
+      color: var(--mdc-theme-error, #b00020);
+    }
+
+    mwc-list-item.heading {
+      --mdc-list-item-side-padding: 32px;
+    }
+
+    mwc-list-item.entry {
+      --mdc-list-item-side-padding: 48px;
+      font-weight: 400;
+      white-space: normal;
+      height: auto;
+      min-height: 48px;
+    }
+
+    #issueElement {
+      overflow: auto;
+      max-height: 240px;
+      padding: 8px;
+      background-color: rgba(0, 0, 0, 0.04);
+    }
+
     h1,
     h2,
     h3 {
@@ -0,0 +1,65 @@
+import { expect } from '@open-wc/testing';
+
+import { groupByBay } from '../foundation/replacement/bays.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+/** Adds bays `B1` and `B2` with `LNode` elements referring to `Old`. */
+function addBays(doc: XMLDocument): void {
+  appendScl(
+    doc.documentElement,
+    `<Substation name="S1">
+      <VoltageLevel name="V1">
+        <Bay name="B1">
+          <LNode iedName="Old" ldInst="LD1" lnClass="XCBR" lnInst="1"/>
+          <LNode iedName="None" lnClass="XSWI" lnInst="1"/>
+        </Bay>
+        <Bay name="B2">
+          <LNode iedName="Old" ldInst="LD1" lnClass="PTOC" lnInst="1"/>
+          <LNode iedName="Sub" ldInst="LD1" lnClass="PTOC" lnInst="1"/>
+        </Bay>
+        <Bay name="B3"/>
+      </VoltageLevel>
+    </Substation>`
+  );
+}
+
+describe('Grouping of candidate IEDs by bay', () => {
+  let doc: XMLDocument;
+  let ieds: Element[];
+
+  beforeEach(() => {
+    doc = replacementDoc();
+    addBays(doc);
+    ieds = Array.from(doc.querySelectorAll(':root > IED'));
+  });
+
+  it('groups the IEDs by the first bay referring to them', () => {
+    const groups = groupByBay(doc, ieds);
+
+    expect(groups.map(group => group.bay?.getAttribute('name'))).to.deep.equal([
+      'B1',
+      'B2',
+      undefined,
+    ]);
+    expect(groups[0].ieds).to.deep.equal([ied(doc, 'Old')]);
+    expect(groups[1].ieds).to.deep.equal([ied(doc, 'Sub')]);
+  });
+
+  it('lists the IEDs placed in no bay as unassigned last', () => {
+    const groups = groupByBay(doc, ieds);
+
+    expect(groups[2].bay).to.be.null;
+    expect(groups[2].ieds).to.deep.equal([
+      ied(doc, 'Template'),
+      ied(doc, 'SubTemplate'),
+    ]);
+  });
+
+  it('omits bays without any of the IEDs', () => {
+    const groups = groupByBay(doc, [ied(doc, 'Sub')]);
+
+    expect(groups).to.have.lengthOf(1);
+    expect(groups[0].bay).to.have.attribute('name', 'B2');
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import { planIedReplacement } from '../foundation/replacement/replacement.js';
+
+import { ied, replacementDoc } from './documents.js';
+
+function address(element: Element | null): string[] {
+  return Array.from(
+    element?.querySelectorAll(':scope > Address > P') ?? []
+  ).map(p => `${p.getAttribute('type')}=${p.textContent}`);
+}
+
+describe('Communication update of an IED replacement', () => {
+  let doc: XMLDocument;
+  let connectedAp: Element;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+    connectedAp = doc.querySelector('ConnectedAP[iedName="Old"]')!;
+  });
+
+  it('re-maps the ConnectedAP onto the access point of the template', () => {
+    ied(doc, 'Template')
+      .querySelector('AccessPoint')!
+      .setAttribute('name', 'S1');
+    const ip = address(connectedAp);
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(connectedAp).to.have.attribute('apName', 'S1');
+    expect(address(connectedAp)).to.deep.equal(ip);
+    expect(plan.reports[0].remapped).to.include('ConnectedAP AP1 to S1');
+  });
+
+  it('adds GSE and SMV without address for unmatched control blocks', () => {
+    ied(doc, 'Template')
+      .querySelector('GSEControl')!
+      .setAttribute('datSet', 'None');
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    const gse = connectedAp.querySelector('GSE');
+    expect(gse).to.have.attribute('cbName', 'GoCB');
+    expect(address(gse)).to.be.empty;
+    expect(plan.reports[0].warnings).to.include(
+      'GSE LD1 GoCB on AP1 has no address to transfer and must be addressed'
+    );
+    expect(
+      plan.reports[0].warnings.some(warning =>
+        warning.startsWith('GSE LD1 GCB on AP1 matches no control block')
+      )
+    ).to.be.true;
+  });
+
+  it('warns if the target is connected to no SubNetwork', () => {
+    connectedAp.remove();
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+
+    expect(plan.reports[0].warnings).to.include(
+      'Old is connected to no SubNetwork, its control blocks GCB, SvCB have no GSE or SMV address'
+    );
+  });
+
+  it('keeps the address of GSE and SMV of transferred control blocks', () => {
+    const gse = address(connectedAp.querySelector('GSE'));
+    const smv = address(connectedAp.querySelector('SMV'));
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: ['GSEControl', 'SampledValueControl', 'DataSet'] }
+    );
+    handleEdit(plan.edits);
+
+    expect(connectedAp.querySelector('GSE')).to.have.attribute('cbName', 'GCB');
+    expect(address(connectedAp.querySelector('GSE'))).to.deep.equal(gse);
+    expect(connectedAp.querySelector('SMV')).to.have.attribute(
+      'cbName',
+      'MSVCB'
+    );
+    expect(address(connectedAp.querySelector('SMV'))).to.deep.equal(smv);
+  });
+
+  it('moves the address of GSE and SMV to equivalent control blocks', () => {
+    const gse = address(connectedAp.querySelector('GSE'));
+    const smv = address(connectedAp.querySelector('SMV'));
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    expect(connectedAp.querySelectorAll('GSE')).to.have.lengthOf(1);
+    expect(connectedAp.querySelector('GSE')).to.have.attribute(
+      'cbName',
+      'GoCB'
+    );
+    expect(address(connectedAp.querySelector('GSE'))).to.deep.equal(gse);
+    expect(connectedAp.querySelectorAll('SMV')).to.have.lengthOf(1);
+    expect(connectedAp.querySelector('SMV')).to.have.attribute(
+      'cbName',
+      'SvCB'
+    );
+    expect(address(connectedAp.querySelector('SMV'))).to.deep.equal(smv);
+    expect(plan.reports[0].remapped).to.include.members([
+      'GSE LD1 GCB on AP1 to LD1 GoCB',
+      'SMV LD1 MSVCB on AP1 to LD1 SvCB',
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { expect } from '@open-wc/testing';
+
+import {
+  compareDataModels,
+  compareModels,
+  dataModel,
+} from '../foundation/replacement/compatibility.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+describe('Data model compatibility', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('lists the data of each logical node along its data types', () => {
+    expect(Array.from(dataModel(ied(doc, 'Old')))).to.include.members([
+      'LD1/',
+      'LD1/ XCBR 1',
+      'LD1/ XCBR 1.Pos',
+      'LD1/ XCBR 1.Pos.stVal ST Dbpos',
+      'LD1/ PTOC 1.Str.general ST BOOLEAN',
+    ]);
+  });
+
+  it('classifies IEDs with the same data model as identical', () => {
+    expect(
+      compareDataModels(ied(doc, 'SubTemplate'), ied(doc, 'Sub'))
+    ).to.equal('identical');
+  });
+
+  it('classifies IEDs each missing data of the other as incompatible', () => {
+    expect(compareDataModels(ied(doc, 'Template'), ied(doc, 'Old'))).to.equal(
+      'incompatible'
+    );
+  });
+
+  it('classifies a template with more or less data as superset or subset', () => {
+    ied(doc, 'Old').querySelector('LN[lnClass="PTOC"]')!.remove();
+    ied(doc, 'Template').querySelector('LN[lnClass="PTOC"]')!.remove();
+    appendScl(
+      ied(doc, 'Template').querySelector('LDevice')!,
+      '<LN lnClass="PTOC" inst="1" lnType="PTOC"/>'
+    );
+    const old = dataModel(ied(doc, 'Old'));
+    const template = dataModel(ied(doc, 'Template'));
+
+    expect(compareModels(template, old)).to.equal('superset');
+    expect(compareModels(old, template)).to.equal('subset');
+  });
+});
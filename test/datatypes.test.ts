@@ -0,0 +1,118 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import { planIedReplacement } from '../foundation/replacement/replacement.js';
+
+import { appendScl, ied, importDoc, replacementDoc } from './documents.js';
+
+describe('Data types of an IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('imports the data types of a template from another document', () => {
+    const template = ied(importDoc(), 'Imported');
+    const plan = planIedReplacement(doc, template, [ied(doc, 'Old')]);
+    handleEdit(plan.edits);
+
+    const xcbr = ied(doc, 'Old').querySelector('LN[lnClass="XCBR"]')!;
+    expect(xcbr.getAttribute('lnType')).to.not.equal('XCBR');
+    expect(
+      doc.querySelector(
+        `DataTypeTemplates > LNodeType[id="${xcbr.getAttribute('lnType')}"]`
+      )
+    ).to.exist;
+    expect(doc.querySelector('DataTypeTemplates > DOType[id="SPC"]')).to.exist;
+    expect(
+      ied(doc, 'Old').querySelector('LN[lnClass="PTOC"]')
+    ).to.have.attribute('lnType', 'PTOC');
+    expect(
+      doc.querySelectorAll('DataTypeTemplates > LNodeType')
+    ).to.have.lengthOf(5);
+  });
+
+  it('imports each data type once for several replaced IEDs', () => {
+    const template = ied(importDoc(), 'Imported');
+    const plan = planIedReplacement(doc, template, [
+      ied(doc, 'Old'),
+      ied(doc, 'Sub'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(
+      doc.querySelectorAll('DataTypeTemplates > LNodeType')
+    ).to.have.lengthOf(5);
+    expect(
+      doc.querySelectorAll('DataTypeTemplates > DOType[id="SPC"]')
+    ).to.have.lengthOf(1);
+  });
+
+  it('removes the imported data types again on undo', () => {
+    const before = new XMLSerializer().serializeToString(doc);
+    const template = ied(importDoc(), 'Imported');
+    const plan = planIedReplacement(doc, template, [ied(doc, 'Old')]);
+    handleEdit(handleEdit(plan.edits));
+
+    expect(new XMLSerializer().serializeToString(doc)).to.equal(before);
+  });
+
+  it('removes data types no longer in use if asked to', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { removeUnusedTypes: true }
+    );
+    handleEdit(plan.edits);
+
+    expect(doc.querySelector('LNodeType[id="PTOC_Old"]')).to.not.exist;
+    expect(doc.querySelector('DOType[id="ACT"]')).to.exist;
+  });
+
+  it('keeps data types still used by an LNode of the Substation', () => {
+    appendScl(
+      doc.documentElement,
+      `<Substation name="S1">
+        <VoltageLevel name="V1">
+          <Bay name="B1">
+            <LNode iedName="None" lnClass="PTOC" lnInst="1" lnType="PTOC_Old"/>
+          </Bay>
+        </VoltageLevel>
+      </Substation>`
+    );
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { removeUnusedTypes: true }
+    );
+    handleEdit(plan.edits);
+
+    expect(doc.querySelector('LNodeType[id="PTOC_Old"]')).to.exist;
+  });
+
+  it('keeps data types no longer in use by default', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(doc.querySelector('LNodeType[id="PTOC_Old"]')).to.exist;
+  });
+
+  it('restores the removed data types on undo', () => {
+    const before = new XMLSerializer().serializeToString(doc);
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { removeUnusedTypes: true }
+    );
+    handleEdit(handleEdit(plan.edits));
+
+    expect(new XMLSerializer().serializeToString(doc)).to.equal(before);
+  });
+});
@@ -0,0 +1,67 @@
+import { expect } from '@open-wc/testing';
+
+import { diffIeds } from '../foundation/replacement/diff.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+describe('Comparison of a candidate IED with the template', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('finds no differences between IEDs named differently only', () => {
+    const copy = <Element>ied(doc, 'Old').cloneNode(true);
+    copy.setAttribute('name', 'Copy');
+    ied(doc, 'Old').after(copy);
+
+    expect(diffIeds(copy, ied(doc, 'Old'))).to.be.empty;
+  });
+
+  it('lists elements only the template or only the IED has', () => {
+    const entries = diffIeds(ied(doc, 'Template'), ied(doc, 'Old'));
+
+    expect(
+      entries.map(({ tag, path, kind }) => `${kind} ${tag} ${path}`)
+    ).to.deep.equal([
+      'added GSEControl >>LD1>GoCB',
+      'added SampledValueControl >>LD1>SvCB',
+      'added LN >>LD1> PTOC 2',
+      'removed GSEControl >>LD1>GCB',
+      'removed SampledValueControl >>LD1>MSVCB',
+      'removed LN >>LD1> PTOC 1',
+    ]);
+  });
+
+  it('lists the attributes in which aligned elements differ', () => {
+    ied(doc, 'Template')
+      .querySelector('LN[lnClass="XCBR"]')!
+      .setAttribute('desc', 'Breaker');
+
+    const entry = diffIeds(ied(doc, 'Template'), ied(doc, 'Old')).find(
+      ({ tag }) => tag === 'LN'
+    );
+    expect(entry).to.deep.equal({
+      tag: 'LN',
+      path: '>>LD1> XCBR 1',
+      kind: 'changed',
+      attributes: [{ name: 'desc', template: 'Breaker', target: null }],
+    });
+  });
+
+  it('lists DOI elements whose values differ', () => {
+    ['Template', 'Old'].forEach(name =>
+      appendScl(
+        ied(doc, name).querySelector('LN[lnClass="XCBR"]')!,
+        `<DOI name="Pos"><DAI name="ctlModel"><Val>${name}</Val></DAI></DOI>`
+      )
+    );
+
+    const entry = diffIeds(ied(doc, 'Template'), ied(doc, 'Old')).find(
+      ({ tag }) => tag === 'DOI'
+    );
+    expect(entry).to.have.property('kind', 'changed');
+    expect(entry?.attributes).to.be.empty;
+  });
+});
@@ -0,0 +1,211 @@
+/** Types shared by the documents below, `XCBR` without `BlkOpn`. */
+const dataTypeTemplates = `<DataTypeTemplates>
+    <LNodeType id="LLN0" lnClass="LLN0">
+      <DO name="Beh" type="ENS"/>
+    </LNodeType>
+    <LNodeType id="XCBR" lnClass="XCBR">
+      <DO name="Pos" type="DPC"/>
+    </LNodeType>
+    <LNodeType id="PTOC" lnClass="PTOC">
+      <DO name="Op" type="ACT"/>
+    </LNodeType>
+    <LNodeType id="PTOC_Old" lnClass="PTOC">
+      <DO name="Op" type="ACT"/>
+      <DO name="Str" type="ACT"/>
+    </LNodeType>
+    <DOType id="ENS" cdc="ENS">
+      <DA name="stVal" bType="Enum" type="Beh" fc="ST"/>
+    </DOType>
+    <DOType id="DPC" cdc="DPC">
+      <DA name="stVal" bType="Dbpos" fc="ST"/>
+    </DOType>
+    <DOType id="ACT" cdc="ACT">
+      <DA name="general" bType="BOOLEAN" fc="ST"/>
+    </DOType>
+    <EnumType id="Beh">
+      <EnumVal ord="1">on</EnumVal>
+    </EnumType>
+  </DataTypeTemplates>`;
+
+/**
+ * `Old` is to be replaced by `Template`, which names its control blocks
+ * differently and has `PTOC` 2 instead of `PTOC` 1. `Sub` subscribes to
+ * `Old` and `SubTemplate` may replace it.
+ */
+const replacementScd = `<SCL xmlns="http://www.iec.ch/61850/2003/SCL" version="2007" revision="B" release="4">
+  <Header id="replacement" version="1" revision="A"/>
+  <Communication>
+    <SubNetwork name="StationBus">
+      <ConnectedAP iedName="Old" apName="AP1">
+        <Address><P type="IP">192.168.0.1</P></Address>
+        <GSE ldInst="LD1" cbName="GCB">
+          <Address><P type="MAC-Address">01-0C-CD-01-00-01</P><P type="APPID">0001</P></Address>
+        </GSE>
+        <SMV ldInst="LD1" cbName="MSVCB">
+          <Address><P type="MAC-Address">01-0C-CD-04-00-01</P><P type="APPID">4001</P></Address>
+        </SMV>
+      </ConnectedAP>
+      <ConnectedAP iedName="Template" apName="AP1">
+        <Address><P type="IP">192.168.0.99</P></Address>
+        <GSE ldInst="LD1" cbName="GoCB">
+          <Address><P type="MAC-Address">01-0C-CD-01-00-99</P><P type="APPID">0099</P></Address>
+        </GSE>
+        <SMV ldInst="LD1" cbName="SvCB">
+          <Address><P type="MAC-Address">01-0C-CD-04-00-99</P><P type="APPID">4099</P></Address>
+        </SMV>
+      </ConnectedAP>
+    </SubNetwork>
+  </Communication>
+  <IED name="Old" type="T1" manufacturer="M">
+    <AccessPoint name="AP1">
+      <Server>
+        <Authentication/>
+        <LDevice inst="LD1">
+          <LN0 lnClass="LLN0" inst="" lnType="LLN0">
+            <DataSet name="DS1">
+              <FCDA ldInst="LD1" prefix="" lnClass="XCBR" lnInst="1" doName="Pos" daName="stVal" fc="ST"/>
+            </DataSet>
+            <GSEControl name="GCB" datSet="DS1" appID="OLD"/>
+            <SampledValueControl name="MSVCB" datSet="DS1" smvID="OLDSV" smpRate="80" nofASDU="1"/>
+          </LN0>
+          <LN lnClass="XCBR" inst="1" lnType="XCBR"/>
+          <LN lnClass="PTOC" inst="1" lnType="PTOC_Old">
+            <Inputs>
+              <ExtRef iedName="Sub" ldInst="LD1" prefix="" lnClass="PTOC" lnInst="1" doName="Op" daName="general" serviceType="GOOSE" srcLDInst="LD1" srcLNClass="LLN0" srcCBName="SubCB"/>
+            </Inputs>
+          </LN>
+        </LDevice>
+      </Server>
+    </AccessPoint>
+  </IED>
+  <IED name="Template" type="T2" manufacturer="M">
+    <AccessPoint name="AP1">
+      <Server>
+        <Authentication/>
+        <LDevice inst="LD1">
+          <LN0 lnClass="LLN0" inst="" lnType="LLN0">
+            <DataSet name="DS1">
+              <FCDA ldInst="LD1" prefix="" lnClass="XCBR" lnInst="1" doName="Pos" daName="stVal" fc="ST"/>
+            </DataSet>
+            <GSEControl name="GoCB" datSet="DS1" appID="NEW"/>
+            <SampledValueControl name="SvCB" datSet="DS1" smvID="NEWSV" smpRate="80" nofASDU="1"/>
+          </LN0>
+          <LN lnClass="XCBR" inst="1" lnType="XCBR">
+            <Inputs>
+              <ExtRef iedName="Template" ldInst="LD1" prefix="" lnClass="PTOC" lnInst="2" doName="Op" daName="general"/>
+            </Inputs>
+          </LN>
+          <LN lnClass="PTOC" inst="2" lnType="PTOC"/>
+        </LDevice>
+      </Server>
+    </AccessPoint>
+  </IED>
+  <IED name="Sub" type="T3" manufacturer="M">
+    <AccessPoint name="AP1">
+      <Server>
+        <Authentication/>
+        <LDevice inst="LD1">
+          <LN0 lnClass="LLN0" inst="" lnType="LLN0">
+            <DataSet name="SubDS">
+              <FCDA ldInst="LD1" prefix="" lnClass="PTOC" lnInst="1" doName="Op" daName="general" fc="ST"/>
+            </DataSet>
+            <GSEControl name="SubCB" datSet="SubDS" appID="SUB"/>
+          </LN0>
+          <LN lnClass="PTOC" inst="1" lnType="PTOC">
+            <Inputs>
+              <ExtRef iedName="Old" ldInst="LD1" prefix="" lnClass="XCBR" lnInst="1" doName="Pos" daName="stVal" serviceType="GOOSE" srcLDInst="LD1" srcLNClass="LLN0" srcCBName="GCB"/>
+            </Inputs>
+          </LN>
+        </LDevice>
+      </Server>
+    </AccessPoint>
+  </IED>
+  <IED name="SubTemplate" type="T3" manufacturer="M">
+    <AccessPoint name="AP1">
+      <Server>
+        <Authentication/>
+        <LDevice inst="LD1">
+          <LN0 lnClass="LLN0" inst="" lnType="LLN0"/>
+          <LN lnClass="PTOC" inst="1" lnType="PTOC"/>
+        </LDevice>
+      </Server>
+    </AccessPoint>
+  </IED>
+  ${dataTypeTemplates}
+</SCL>`;
+
+/**
+ * An ICD file whose `XCBR` type differs from that of the document above by
+ * `BlkOpn` while its `PTOC` type is the same.
+ */
+const importIcd = `<SCL xmlns="http://www.iec.ch/61850/2003/SCL" version="2007" revision="B" release="4">
+  <Header id="import"/>
+  <IED name="Imported" type="T4" manufacturer="M">
+    <AccessPoint name="AP1">
+      <Server>
+        <Authentication/>
+        <LDevice inst="LD1">
+          <LN0 lnClass="LLN0" inst="" lnType="LLN0"/>
+          <LN lnClass="XCBR" inst="1" lnType="XCBR"/>
+          <LN lnClass="PTOC" inst="1" lnType="PTOC"/>
+        </LDevice>
+      </Server>
+    </AccessPoint>
+  </IED>
+  <DataTypeTemplates>
+    <LNodeType id="LLN0" lnClass="LLN0">
+      <DO name="Beh" type="ENS"/>
+    </LNodeType>
+    <LNodeType id="XCBR" lnClass="XCBR">
+      <DO name="Pos" type="DPC"/>
+      <DO name="BlkOpn" type="SPC"/>
+    </LNodeType>
+    <LNodeType id="PTOC" lnClass="PTOC">
+      <DO name="Op" type="ACT"/>
+    </LNodeType>
+    <DOType id="ENS" cdc="ENS">
+      <DA name="stVal" bType="Enum" type="Beh" fc="ST"/>
+    </DOType>
+    <DOType id="DPC" cdc="DPC">
+      <DA name="stVal" bType="Dbpos" fc="ST"/>
+    </DOType>
+    <DOType id="SPC" cdc="SPC">
+      <DA name="stVal" bType="BOOLEAN" fc="ST"/>
+    </DOType>
+    <DOType id="ACT" cdc="ACT">
+      <DA name="general" bType="BOOLEAN" fc="ST"/>
+    </DOType>
+    <EnumType id="Beh">
+      <EnumVal ord="1">on</EnumVal>
+    </EnumType>
+  </DataTypeTemplates>
+</SCL>`;
+
+function parse(scl: string): XMLDocument {
+  return new DOMParser().parseFromString(scl, 'application/xml');
+}
+
+/** @returns a fresh copy of the document with the IEDs to replace. */
+export function replacementDoc(): XMLDocument {
+  return parse(replacementScd);
+}
+
+/** @returns a fresh copy of an ICD file to import a template from. */
+export function importDoc(): XMLDocument {
+  return parse(importIcd);
+}
+
+/** @returns the IED named `name` within `doc`. */
+export function ied(doc: XMLDocument, name: string): Element {
+  return doc.querySelector(`:root > IED[name="${name}"]`)!;
+}
+
+/** Appends the SCL elements `xml` to `parent`. */
+export function appendScl(parent: Element, xml: string): void {
+  const snippet = parse(
+    `<SCL xmlns="http://www.iec.ch/61850/2003/SCL">${xml}</SCL>`
+  ).documentElement;
+  Array.from(snippet.children).forEach(child =>
+    parent.appendChild(parent.ownerDocument.importNode(child, true))
+  );
+}
@@ -0,0 +1,75 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import { planHistoryItem } from '../foundation/replacement/history.js';
+import { planIedReplacement } from '../foundation/replacement/replacement.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+describe('History of an IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('records the replacement as Hitem in a new History', () => {
+    doc.querySelector(':root > Header')!.setAttribute('version', '2');
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { history: { who: 'Tester', why: 'Upgrade' } }
+    );
+    handleEdit(plan.edits);
+
+    const hitem = doc.querySelector(':root > Header > History > Hitem');
+    expect(hitem).to.have.attribute('version', '2');
+    expect(hitem).to.have.attribute('revision', 'A');
+    expect(hitem).to.have.attribute('who', 'Tester');
+    expect(hitem).to.have.attribute('why', 'Upgrade');
+    expect(hitem).to.have.attribute(
+      'what',
+      'Replaced IEDs Old with template Template'
+    );
+    expect(plan.reports[0].inserted).to.include(
+      'Hitem Replaced IEDs Old with template Template'
+    );
+  });
+
+  it('appends to an existing History with an ISO timestamp', () => {
+    appendScl(
+      doc.querySelector(':root > Header')!,
+      '<History><Hitem version="1" revision="A" when="earlier" what="Created"/></History>'
+    );
+    handleEdit(planHistoryItem(doc, 'Replaced', { who: '', why: '' }));
+
+    const hitems = doc.querySelectorAll(':root > Header > History > Hitem');
+    expect(hitems).to.have.lengthOf(2);
+    const when = hitems[1].getAttribute('when')!;
+    expect(new Date(when).toISOString()).to.equal(when);
+    expect(hitems[1]).to.not.have.attribute('who');
+    expect(hitems[1]).to.not.have.attribute('why');
+  });
+
+  it('defaults version and revision where the Header has none', () => {
+    const header = doc.querySelector(':root > Header')!;
+    header.setAttribute('version', '');
+    header.removeAttribute('revision');
+    handleEdit(planHistoryItem(doc, 'Replaced', { who: '', why: '' }));
+
+    const hitem = header.querySelector('History > Hitem');
+    expect(hitem).to.have.attribute('version', '1');
+    expect(hitem).to.have.attribute('revision', 'A');
+  });
+
+  it('records nothing unless asked to', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(doc.querySelector('History')).to.not.exist;
+  });
+});
@@ -0,0 +1,55 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import { planIedReplacement } from '../foundation/replacement/replacement.js';
+
+import { ied, replacementDoc } from './documents.js';
+
+describe('Inputs of an IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('reports Inputs of logical nodes missing in the template', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+
+    expect(plan.reports[0].orphanedInputs).to.have.lengthOf(1);
+    expect(plan.reports[0].orphanedInputs[0].anyLn).to.equal(
+      'Old>>LD1> PTOC 1'
+    );
+    expect(plan.reports[0].orphanedInputs[0].extRefs).to.have.lengthOf(1);
+  });
+
+  it('relocates Inputs of logical nodes missing in the template', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { relocateInputs: { 'Old>>LD1> PTOC 1': 'Old>>LD1> PTOC 2' } }
+    );
+    handleEdit(plan.edits);
+
+    expect(plan.reports[0].orphanedInputs).to.be.empty;
+    expect(
+      ied(doc, 'Old').querySelector('LN[lnClass="PTOC"][inst="2"] ExtRef')
+    ).to.have.attribute('srcCBName', 'SubCB');
+    expect(plan.reports[0].remapped).to.include(
+      'Inputs Old>>LD1> PTOC 1 to Old>>LD1> PTOC 2'
+    );
+  });
+
+  it('drops the Inputs of logical nodes missing in the template by default', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(ied(doc, 'Old').querySelector('ExtRef[srcCBName="SubCB"]')).to.not
+      .exist;
+  });
+});
@@ -0,0 +1,108 @@
+import { expect } from '@open-wc/testing';
+
+import { validateReferences } from '../foundation/replacement/integrity.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+describe('Reference validation', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('finds no issues where all references resolve', () => {
+    expect(validateReferences(doc)).to.be.empty;
+  });
+
+  it('accepts internal references to data in no data set', () => {
+    appendScl(
+      ied(doc, 'Old').querySelector('LN[lnClass="XCBR"]')!,
+      `<Inputs>
+        <ExtRef iedName="Old" ldInst="LD1" prefix="" lnClass="PTOC" lnInst="1" doName="Str" daName="general"/>
+      </Inputs>`
+    );
+
+    expect(validateReferences(doc)).to.be.empty;
+  });
+
+  it('reports subscriptions to data in no data set', () => {
+    ied(doc, 'Old').querySelector('FCDA')!.setAttribute('doName', 'BlkOpn');
+    const extRef = ied(doc, 'Sub').querySelector('ExtRef')!;
+
+    const issues = validateReferences(doc);
+    expect(issues).to.have.lengthOf(1);
+    expect(issues[0].element).to.equal(extRef);
+    expect(issues[0].message).to.match(
+      /^ExtRef .* refers to data no data set of its IED contains$/
+    );
+  });
+
+  it('reports references to unknown IEDs', () => {
+    ied(doc, 'Sub').remove();
+    const extRef = ied(doc, 'Old').querySelector('ExtRef')!;
+
+    const issues = validateReferences(doc);
+    expect(issues.map(issue => issue.element)).to.deep.equal([extRef]);
+    expect(issues[0].message).to.match(/refers to the unknown IED Sub$/);
+  });
+
+  it('reports references to unknown control blocks', () => {
+    ied(doc, 'Old').querySelector('GSEControl')!.setAttribute('name', 'GCB2');
+
+    const issues = validateReferences(doc);
+    expect(issues.map(issue => issue.element)).to.deep.equal([
+      ied(doc, 'Sub').querySelector('ExtRef'),
+      doc.querySelector('ConnectedAP[iedName="Old"] > GSE'),
+    ]);
+    expect(issues[0].message).to.match(
+      /refers to the unknown control block GCB$/
+    );
+    expect(issues[1].message).to.match(
+      /refers to the unknown control block LD1 GCB of Old$/
+    );
+  });
+
+  it('reports ConnectedAP elements of unknown access points', () => {
+    ied(doc, 'Old').querySelector('AccessPoint')!.setAttribute('name', 'S1');
+    const connectedAp = doc.querySelector('ConnectedAP[iedName="Old"]');
+
+    const issues = validateReferences(doc).filter(
+      issue => issue.element === connectedAp
+    );
+    expect(issues).to.have.lengthOf(1);
+    expect(issues[0].message).to.match(
+      /refers to the unknown access point AP1 of Old$/
+    );
+  });
+
+  it('reports control blocks of unknown data sets', () => {
+    const control = ied(doc, 'Old').querySelector('GSEControl')!;
+    control.setAttribute('datSet', 'DS2');
+
+    const issues = validateReferences(doc);
+    expect(issues.map(issue => issue.element)).to.deep.equal([control]);
+    expect(issues[0].message).to.match(/refers to the unknown data set DS2$/);
+  });
+
+  it('reports LNode elements of unknown logical nodes', () => {
+    appendScl(
+      doc.documentElement,
+      `<Substation name="S1">
+        <VoltageLevel name="V1">
+          <Bay name="B1">
+            <LNode iedName="Old" ldInst="LD1" lnClass="PTOC" lnInst="2"/>
+          </Bay>
+        </VoltageLevel>
+      </Substation>`
+    );
+
+    const issues = validateReferences(doc);
+    expect(issues.map(issue => issue.element)).to.deep.equal([
+      doc.querySelector('LNode'),
+    ]);
+    expect(issues[0].message).to.match(
+      /refers to an unknown logical node of Old$/
+    );
+  });
+});
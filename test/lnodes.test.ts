@@ -0,0 +1,78 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import { planIedReplacement } from '../foundation/replacement/replacement.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+describe('Substation LNode update of an IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+    appendScl(
+      doc.documentElement,
+      `<Substation name="S1">
+        <VoltageLevel name="V1">
+          <Bay name="B1">
+            <LNode iedName="Old" ldInst="LD1" lnClass="XCBR" lnInst="1"/>
+            <LNode iedName="Old" ldInst="LD1" lnClass="PTOC" lnInst="1"/>
+          </Bay>
+        </VoltageLevel>
+      </Substation>`
+    );
+  });
+
+  function lNodes(): Element[] {
+    return Array.from(doc.querySelectorAll('Substation LNode'));
+  }
+
+  it('keeps LNode elements the template resolves', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { mapping: { 'LD1/PTOC1': 'LD1/PTOC2' } }
+    );
+    handleEdit(plan.edits);
+
+    expect(lNodes()[0]).to.have.attribute('lnInst', '1');
+    expect(
+      plan.reports[0].remapped.filter(entry => entry.startsWith('LNode'))
+    ).to.have.lengthOf(1);
+  });
+
+  it('re-maps LNode elements to the counterpart of their logical node', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { mapping: { 'LD1/PTOC1': 'LD1/PTOC2' } }
+    );
+    handleEdit(plan.edits);
+
+    expect(lNodes()[1]).to.have.attribute('lnInst', '2');
+    expect(lNodes()[1]).to.have.attribute('iedName', 'Old');
+    expect(
+      plan.reports[0].remapped.some(
+        entry => entry.startsWith('LNode') && entry.endsWith(' to LD1/PTOC2')
+      )
+    ).to.be.true;
+  });
+
+  it('reports LNode elements the template cannot resolve', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(lNodes()[1]).to.have.attribute('lnInst', '1');
+    expect(
+      plan.reports[0].warnings.some(
+        warning =>
+          warning.startsWith('LNode') && warning.endsWith(' is unresolved')
+      )
+    ).to.be.true;
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import { suggestMapping } from '../foundation/replacement/mapping.js';
+import { planIedReplacement } from '../foundation/replacement/replacement.js';
+
+import { ied, replacementDoc } from './documents.js';
+
+describe('Structure mapping of an IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('transfers elements along an explicit structure mapping', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { mapping: { 'LD1/PTOC1': 'LD1/PTOC2' } }
+    );
+    handleEdit(plan.edits);
+
+    expect(plan.reports[0].orphanedInputs).to.be.empty;
+    expect(
+      ied(doc, 'Old').querySelector('LN[lnClass="PTOC"][inst="2"] ExtRef')
+    ).to.have.attribute('srcCBName', 'SubCB');
+  });
+
+  it('moves logical nodes along with their mapped logical device', () => {
+    ied(doc, 'Template').querySelector('LDevice')!.setAttribute('inst', 'CTRL');
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { mapping: { LD1: 'CTRL' } }
+    );
+    handleEdit(plan.edits);
+
+    const fcda = ied(doc, 'Old').querySelector('FCDA');
+    expect(fcda).to.have.attribute('ldInst', 'CTRL');
+    expect(ied(doc, 'Old').querySelector('GSEControl')).to.have.attribute(
+      'name',
+      'GCB'
+    );
+  });
+
+  it('suggests logical nodes of the same class for those without namesake', () => {
+    expect(suggestMapping(ied(doc, 'Old'), ied(doc, 'Template'))).to.deep.equal(
+      { 'LD1/PTOC1': 'LD1/PTOC2' }
+    );
+  });
+
+  it('suggests logical devices sharing logical node classes', () => {
+    ied(doc, 'Template').querySelector('LDevice')!.setAttribute('inst', 'CTRL');
+
+    expect(suggestMapping(ied(doc, 'Old'), ied(doc, 'Template'))).to.deep.equal(
+      { LD1: 'CTRL', 'LD1/PTOC1': 'CTRL/PTOC2' }
+    );
+  });
+
+  it('keeps the pairs already chosen', () => {
+    expect(
+      suggestMapping(ied(doc, 'Old'), ied(doc, 'Template'), {
+        'LD1/PTOC1': 'LD1/XCBR1',
+      })
+    ).to.deep.equal({ 'LD1/PTOC1': 'LD1/XCBR1' });
+  });
+});
@@ -0,0 +1,82 @@
+import { expect, fixture, html } from '@open-wc/testing';
+
+import '@material/mwc-list/mwc-list-item.js';
+
+import '../foundation/components/oscd-filtered-list.js';
+import type { OscdFilteredList } from '../foundation/components/oscd-filtered-list.js';
+
+describe('oscd-filtered-list', () => {
+  let list: OscdFilteredList;
+
+  async function filter(searchText: string): Promise<string[]> {
+    list.searchField.value = searchText;
+    list.onFilterInput();
+    await list.updateComplete;
+    return Array.from(list.querySelectorAll('mwc-list-item'))
+      .filter(item => !item.classList.contains('hidden'))
+      .map(item => item.getAttribute('value')!);
+  }
+
+  beforeEach(async () => {
+    list = await fixture<OscdFilteredList>(
+      html`<oscd-filtered-list>
+        <mwc-list-item value="P1" data-type="REL670" data-manufacturer="ABB"
+          >P1 Feeder protection</mwc-list-item
+        >
+        <mwc-list-item value="P2" data-type="7SJ85" data-manufacturer="Siemens"
+          >P2 Feeder protection</mwc-list-item
+        >
+        <mwc-list-item
+          value="C1"
+          data-type="REC670"
+          data-manufacturer="ABB"
+          data-config-version="2.1"
+          >C1 Bay control</mwc-list-item
+        >
+      </oscd-filtered-list>`
+    );
+  });
+
+  it('shows all items without search text', async () => {
+    expect(await filter('')).to.deep.equal(['P1', 'P2', 'C1']);
+  });
+
+  it('shows items matching all terms', async () => {
+    expect(await filter('feeder P2')).to.deep.equal(['P2']);
+  });
+
+  it('supports wildcards', async () => {
+    expect(await filter('P? Feed*tion')).to.deep.equal(['P1', 'P2']);
+  });
+
+  it('supports regular expressions enclosed in slashes', async () => {
+    expect(await filter('/^(P1|C1)/')).to.deep.equal(['P1', 'C1']);
+  });
+
+  it('searches invalid regular expressions literally', async () => {
+    expect(await filter('/(/')).to.be.empty;
+  });
+
+  it('hides items matching terms prefixed with a minus', async () => {
+    expect(await filter('-control')).to.deep.equal(['P1', 'P2']);
+    expect(await filter('feeder -/p1/')).to.deep.equal(['P2']);
+  });
+
+  it('matches qualified terms against data attributes only', async () => {
+    expect(await filter('manufacturer:abb')).to.deep.equal(['P1', 'C1']);
+    expect(await filter('type:RE?670 -manufacturer:siemens')).to.deep.equal([
+      'P1',
+      'C1',
+    ]);
+    expect(await filter('type:/^7/')).to.deep.equal(['P2']);
+  });
+
+  it('treats dashes and case of attribute keys alike', async () => {
+    expect(await filter('config-version:2.*')).to.deep.equal(['C1']);
+    expect(await filter('CONFIGVERSION:2.1')).to.deep.equal(['C1']);
+  });
+
+  it('matches qualified terms without data attribute as text', async () => {
+    expect(await filter('bay:control')).to.be.empty;
+  });
+});
@@ -0,0 +1,151 @@
+import { expect, fixture, html } from '@open-wc/testing';
+
+import type { CheckListItem } from '@material/mwc-list/mwc-check-list-item.js';
+
+import ReplaceIEDs from '../oscd-replace-ieds.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+customElements.define('oscd-replace-ieds', ReplaceIEDs);
+
+function serialize(doc: XMLDocument): string {
+  return new XMLSerializer().serializeToString(doc);
+}
+
+describe('oscd-replace-ieds', () => {
+  let doc: XMLDocument;
+  let plugin: ReplaceIEDs;
+  let edits: CustomEvent[];
+
+  beforeEach(async () => {
+    doc = replacementDoc();
+    plugin = await fixture<ReplaceIEDs>(
+      html`<oscd-replace-ieds
+        .doc=${doc}
+        docName="test.scd"
+      ></oscd-replace-ieds>`
+    );
+    edits = [];
+    plugin.addEventListener('oscd-edit', event =>
+      edits.push(<CustomEvent>event)
+    );
+  });
+
+  function click(selector: string): void {
+    plugin.shadowRoot!.querySelector<HTMLElement>(selector)!.click();
+  }
+
+  /** Selects the candidate IED named `name` for replacement. */
+  async function select(name: string): Promise<void> {
+    const item = plugin.shadowRoot!.querySelector<CheckListItem>(
+      `mwc-check-list-item[data-name="${name}"]`
+    )!;
+    item.selected = true;
+    await item.updateComplete;
+  }
+
+  describe('previewing a replacement', () => {
+    let before: string;
+
+    beforeEach(async () => {
+      before = serialize(doc);
+      plugin.selectedIEDs = ['Template'];
+      await plugin.updateComplete;
+      await select('Old');
+      click('#dialog mwc-button[slot="primaryAction"]');
+      await plugin.updateComplete;
+    });
+
+    it('lists the planned changes without touching the document', () => {
+      const items = Array.from(
+        plugin.shadowRoot!.querySelectorAll('#previewDialog mwc-list-item')
+      ).map(item => item.textContent?.replace(/\s+/g, ' ').trim());
+
+      expect(items[0]).to.include('Old with template Template');
+      expect(items).to.include('IED Old');
+      expect(serialize(doc)).to.equal(before);
+      expect(edits).to.be.empty;
+    });
+
+    it('applies the planned edits as one edit on confirmation', async () => {
+      const { edits: planned } = plugin.plan!;
+      click('#previewDialog mwc-button[slot="primaryAction"]');
+      await plugin.updateComplete;
+
+      expect(edits).to.have.lengthOf(1);
+      expect(edits[0].detail).to.equal(planned);
+      expect(plugin.plan).to.be.undefined;
+    });
+  });
+
+  describe('validating the document', () => {
+    beforeEach(async () => {
+      ied(doc, 'Sub').querySelector('ExtRef')!.setAttribute('srcCBName', 'X');
+      click('mwc-button[icon="rule"]');
+      await plugin.updateComplete;
+    });
+
+    it('lists the references which do not resolve', () => {
+      const items = plugin.shadowRoot!.querySelectorAll(
+        '#validationDialog mwc-list-item'
+      );
+
+      expect(items).to.have.lengthOf(1);
+      expect(items[0].textContent).to.include(
+        'refers to the unknown control block X'
+      );
+    });
+
+    it('shows the element holding a reference on click', async () => {
+      click('#validationDialog mwc-list-item');
+      await plugin.updateComplete;
+
+      expect(
+        plugin.shadowRoot!.querySelector('#issueElement')?.textContent
+      ).to.include('srcCBName="X"');
+    });
+  });
+
+  describe('filtering candidates grouped by bay', () => {
+    beforeEach(async () => {
+      appendScl(
+        doc.documentElement,
+        `<Substation name="S1">
+          <VoltageLevel name="V1">
+            <Bay name="B1">
+              <LNode iedName="Old" ldInst="LD1" lnClass="XCBR" lnInst="1"/>
+            </Bay>
+          </VoltageLevel>
+        </Substation>`
+      );
+      plugin.requestUpdate();
+      await plugin.updateComplete;
+    });
+
+    /** @returns the text of the items shown for `searchText`. */
+    async function filter(searchText: string): Promise<string[]> {
+      const list = plugin.replaceIedsUI!;
+      list.searchField.value = searchText;
+      list.onFilterInput();
+      await list.updateComplete;
+      return Array.from(
+        list.querySelectorAll('mwc-list-item, mwc-check-list-item')
+      )
+        .filter(item => !item.classList.contains('hidden'))
+        .map(item => item.textContent!.trim().split(/\s+/)[0]);
+    }
+
+    it('shows the bays of the IEDs found', async () => {
+      expect(await filter('Old')).to.deep.equal(['S1>V1>B1', 'Old']);
+      expect(await filter('Sub*')).to.deep.equal([
+        'Unassigned',
+        'Sub',
+        'SubTemplate',
+      ]);
+    });
+
+    it('hides the bays whose IEDs are all hidden', async () => {
+      expect(await filter('None')).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import { planIedReplacement } from '../foundation/replacement/replacement.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+function serialize(doc: XMLDocument): string {
+  return new XMLSerializer().serializeToString(doc);
+}
+
+describe('IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('replaces the target with a copy of the template at its position', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    const names = Array.from(doc.querySelectorAll(':root > IED')).map(element =>
+      element.getAttribute('name')
+    );
+    expect(names).to.deep.equal(['Old', 'Template', 'Sub', 'SubTemplate']);
+    expect(ied(doc, 'Old').getAttribute('type')).to.equal('T2');
+    expect(
+      ied(doc, 'Old').querySelector('LN[lnClass="PTOC"]')
+    ).to.have.attribute('inst', '2');
+  });
+
+  it('transfers the chosen elements of the target', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    const gseControls = ied(doc, 'Old').querySelectorAll('GSEControl');
+    expect(gseControls).to.have.lengthOf(1);
+    expect(gseControls[0]).to.have.attribute('name', 'GCB');
+    expect(gseControls[0]).to.have.attribute('appID', 'OLD');
+    expect(
+      plan.reports[0].transferred.some(entry => entry.startsWith('GSEControl'))
+    ).to.be.true;
+  });
+
+  it('keeps the elements of the template not chosen for transfer', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    expect(ied(doc, 'Old').querySelector('GSEControl')).to.have.attribute(
+      'name',
+      'GoCB'
+    );
+  });
+
+  it('is undone exactly by the undo edit', () => {
+    const before = serialize(doc);
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+
+    const undo = handleEdit(plan.edits);
+    expect(serialize(doc)).to.not.equal(before);
+    handleEdit(undo);
+
+    expect(serialize(doc)).to.equal(before);
+  });
+
+  it('renames the references of the template to itself', () => {
+    const xcbr = ied(doc, 'Template').querySelector('LN[lnClass="XCBR"]')!;
+    appendScl(
+      xcbr,
+      `<DOI name="InRef1">
+        <DAI name="setSrcRef"><Val>TemplateLD1/PTOC2.Op.general</Val></DAI>
+      </DOI>`
+    );
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    const newXcbr = ied(doc, 'Old').querySelector('LN[lnClass="XCBR"]')!;
+    expect(newXcbr.querySelector('ExtRef')).to.have.attribute('iedName', 'Old');
+    expect(newXcbr.querySelector('Val')?.textContent).to.equal(
+      'OldLD1/PTOC2.Op.general'
+    );
+    expect(ied(doc, 'Template').querySelector('ExtRef')).to.have.attribute(
+      'iedName',
+      'Template'
+    );
+  });
+
+  it('leaves values merely resembling the name of the template alone', () => {
+    const xcbr = ied(doc, 'Template').querySelector('LN[lnClass="XCBR"]')!;
+    xcbr.setAttribute('desc', 'Template');
+    appendScl(
+      xcbr.querySelector('Inputs')!,
+      '<ExtRef iedName="TemplateLD1" ldInst="LD1" lnClass="XCBR" lnInst="1" doName="Pos"/>'
+    );
+    appendScl(
+      xcbr,
+      `<DOI name="NamPlt">
+        <DAI name="model"><Val>Template</Val></DAI>
+        <DAI name="vendor"><Val>TemplateLD1</Val></DAI>
+      </DOI>`
+    );
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    const newXcbr = ied(doc, 'Old').querySelector('LN[lnClass="XCBR"]')!;
+    expect(newXcbr).to.have.attribute('desc', 'Template');
+    expect(newXcbr.querySelectorAll('ExtRef')[1]).to.have.attribute(
+      'iedName',
+      'TemplateLD1'
+    );
+    expect(
+      Array.from(newXcbr.querySelectorAll('Val')).map(val => val.textContent)
+    ).to.deep.equal(['Template', 'TemplateLD1']);
+  });
+});
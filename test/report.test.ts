@@ -0,0 +1,52 @@
+import { expect } from '@open-wc/testing';
+
+import {
+  newReplacementReport,
+  ReplacementReport,
+  reportsToCsv,
+  reportsToJson,
+} from '../foundation/replacement/report.js';
+
+describe('Replacement report export', () => {
+  let report: ReplacementReport;
+
+  beforeEach(() => {
+    report = newReplacementReport('Old', 'Template');
+    report.removed.push('IED Old');
+    report.warnings.push('Subscription Sub: "Pos", quoted');
+    report.orphanedInputs.push({
+      anyLn: 'Old>>LD1> PTOC 1',
+      extRefs: ['Sub LD1/LLN0.SubCB', 'Sub LD1/LLN0.Other'],
+    });
+  });
+
+  it('exports the reports as JSON along with the document', () => {
+    const json = JSON.parse(reportsToJson([report], 'test.scd'));
+
+    expect(json.document).to.equal('test.scd');
+    expect(new Date(json.date).toISOString()).to.equal(json.date);
+    expect(json.reports).to.deep.equal([report]);
+    expect(json).to.not.have.property('issues');
+  });
+
+  it('exports the issues found after the replacement as JSON', () => {
+    const json = JSON.parse(
+      reportsToJson([report], 'test.scd', ['ExtRef unresolved'])
+    );
+
+    expect(json.issues).to.deep.equal(['ExtRef unresolved']);
+  });
+
+  it('exports one CSV row per entry, orphaned ExtRef and issue', () => {
+    const rows = reportsToCsv([report], ['ExtRef unresolved']).split('\r\n');
+
+    expect(rows).to.deep.equal([
+      'iedName,templateName,category,entry',
+      'Old,Template,removed,IED Old',
+      'Old,Template,warnings,"Subscription Sub: ""Pos"", quoted"',
+      'Old,Template,orphanedInputs,Old>>LD1> PTOC 1: Sub LD1/LLN0.SubCB',
+      'Old,Template,orphanedInputs,Old>>LD1> PTOC 1: Sub LD1/LLN0.Other',
+      ',,issues,ExtRef unresolved',
+    ]);
+  });
+});
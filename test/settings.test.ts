@@ -0,0 +1,64 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import { planIedReplacement } from '../foundation/replacement/replacement.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+describe('Instance values of an IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+    appendScl(
+      ied(doc, 'Old').querySelector('LN[lnClass="XCBR"]')!,
+      `<DOI name="Pos">
+        <DAI name="stVal"><Val>on</Val></DAI>
+        <DAI name="q"><Val>good</Val></DAI>
+      </DOI>`
+    );
+  });
+
+  it('keeps the values of the target if asked to', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { keepInstanceValues: true }
+    );
+    handleEdit(plan.edits);
+
+    const dai = ied(doc, 'Old').querySelector(
+      'LN[lnClass="XCBR"] > DOI[name="Pos"] > DAI[name="stVal"]'
+    );
+    expect(dai?.querySelector('Val')?.textContent).to.equal('on');
+    expect(plan.reports[0].transferred).to.include(
+      'Value LD1/XCBR1.Pos.stVal = on'
+    );
+  });
+
+  it('reports values the template has no data attribute for', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { keepInstanceValues: true }
+    );
+    handleEdit(plan.edits);
+
+    expect(ied(doc, 'Old').querySelector('DAI[name="q"]')).to.not.exist;
+    expect(plan.reports[0].warnings).to.include(
+      'Value LD1/XCBR1.Pos.q = good has no counterpart in the template and is lost'
+    );
+  });
+
+  it('keeps the values of the template by default', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(ied(doc, 'Old').querySelector('DOI[name="Pos"]')).to.not.exist;
+  });
+});
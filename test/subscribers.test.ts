@@ -0,0 +1,136 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import {
+  planIedReplacement,
+  planReplacementJob,
+} from '../foundation/replacement/replacement.js';
+
+import { appendScl, ied, replacementDoc } from './documents.js';
+
+function supervise(subscriber: Element, valKind: string): void {
+  appendScl(
+    subscriber.querySelector('LDevice')!,
+    `<LN lnClass="LGOS" inst="1" lnType="LGOS">
+      <DOI name="GoCBRef">
+        <DAI name="setSrcRef" valKind="${valKind}" valImport="true">
+          <Val>OldLD1/LLN0.GCB</Val>
+        </DAI>
+      </DOI>
+    </LN>`
+  );
+}
+
+describe('Subscriber update of an IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+  });
+
+  it('confirms subscriptions the template still publishes', () => {
+    const plan = planIedReplacement(doc, ied(doc, 'Template'), [
+      ied(doc, 'Old'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(ied(doc, 'Sub').querySelector('ExtRef')).to.have.attribute(
+      'srcCBName',
+      'GCB'
+    );
+    expect(
+      plan.reports[0].remapped.some(entry => entry.startsWith('Subscription'))
+    ).to.be.false;
+  });
+
+  it('rebinds subscriptions to the equivalent control block', () => {
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    const extRef = ied(doc, 'Sub').querySelector('ExtRef')!;
+    expect(extRef).to.have.attribute('iedName', 'Old');
+    expect(extRef).to.have.attribute('srcCBName', 'GoCB');
+    expect(plan.reports[0].remapped).to.include(
+      'Subscription Sub: Old LD1/XCBR1.Pos.stVal to LD1/XCBR1.Pos'
+    );
+  });
+
+  it('warns of subscriptions without equivalent in the template', () => {
+    ied(doc, 'Template').querySelector('FCDA')!.setAttribute('fc', 'MX');
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    expect(ied(doc, 'Sub').querySelector('ExtRef')).to.have.attribute(
+      'srcCBName',
+      'GCB'
+    );
+    expect(plan.reports[0].warnings).to.include(
+      'Subscription Sub: Old LD1/XCBR1.Pos.stVal has no equivalent in the template and is broken'
+    );
+  });
+
+  it('points the supervision of rebound subscriptions to the new control block', () => {
+    supervise(ied(doc, 'Sub'), 'RO');
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    expect(
+      ied(doc, 'Sub').querySelector('LN[lnClass="LGOS"] Val')?.textContent
+    ).to.equal('OldLD1/LLN0.GoCB');
+    expect(plan.reports[0].remapped).to.include(
+      'LGOS supervision of OldLD1/LLN0.GCB in Sub to OldLD1/LLN0.GoCB'
+    );
+  });
+
+  it('warns of supervisions of rebound subscriptions it may not change', () => {
+    supervise(ied(doc, 'Sub'), 'Set');
+    const plan = planIedReplacement(
+      doc,
+      ied(doc, 'Template'),
+      [ied(doc, 'Old')],
+      { transfer: [] }
+    );
+    handleEdit(plan.edits);
+
+    expect(
+      ied(doc, 'Sub').querySelector('LN[lnClass="LGOS"] Val')?.textContent
+    ).to.equal('OldLD1/LLN0.GCB');
+    expect(plan.reports[0].warnings).to.include(
+      'LGOS supervision of OldLD1/LLN0.GCB in Sub may not be changed and still supervises the replaced control block'
+    );
+  });
+
+  it('rebinds subscriptions of IEDs replaced within the same job', () => {
+    const plan = planReplacementJob(
+      doc,
+      [
+        { templateIed: ied(doc, 'Template'), targetIeds: [ied(doc, 'Old')] },
+        { templateIed: ied(doc, 'SubTemplate'), targetIeds: [ied(doc, 'Sub')] },
+      ],
+      { transfer: ['Inputs'] }
+    );
+    handleEdit(plan.edits);
+
+    const extRef = ied(doc, 'Sub').querySelector('ExtRef')!;
+    expect(extRef).to.have.attribute('srcCBName', 'GoCB');
+    expect(plan.reports[0].remapped).to.include(
+      'Subscription Sub: Old LD1/XCBR1.Pos.stVal to LD1/XCBR1.Pos'
+    );
+  });
+});
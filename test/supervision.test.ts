@@ -0,0 +1,146 @@
+import { expect } from '@open-wc/testing';
+
+import { handleEdit } from '@openscd/open-scd-core';
+
+import {
+  planIedReplacement,
+  planReplacementJob,
+  ReplacementPairing,
+} from '../foundation/replacement/replacement.js';
+
+import { appendScl, ied, importDoc, replacementDoc } from './documents.js';
+
+/** Adds the data types of an LGOS whose `setSrcRef` may be set. */
+function addLgosTypes(doc: XMLDocument): void {
+  appendScl(
+    doc.querySelector(':root > DataTypeTemplates')!,
+    `<LNodeType id="LGOS" lnClass="LGOS">
+      <DO name="GoCBRef" type="ORG"/>
+    </LNodeType>
+    <DOType id="ORG" cdc="ORG">
+      <DA name="setSrcRef" bType="ObjRef" fc="SP" valKind="RO" valImport="true"/>
+    </DOType>`
+  );
+}
+
+/** Gives `template` an LGOS supervising `reference` and room for `maxGo`. */
+function addLgos(template: Element, maxGo: number, reference = ''): void {
+  appendScl(
+    template,
+    `<Services><SupSubscription maxGo="${maxGo}" maxSv="0"/></Services>`
+  );
+  template.insertBefore(template.lastElementChild!, template.firstElementChild);
+  appendScl(
+    template.querySelector('LDevice')!,
+    `<LN lnClass="LGOS" inst="1" lnType="LGOS">${
+      reference
+        ? `<DOI name="GoCBRef"><DAI name="setSrcRef"><Val>${reference}</Val></DAI></DOI>`
+        : ''
+    }</LN>`
+  );
+}
+
+function supervised(subscriber: Element): string[] {
+  return Array.from(
+    subscriber.querySelectorAll(
+      'LN[lnClass="LGOS"] > DOI[name="GoCBRef"] > DAI[name="setSrcRef"] > Val'
+    )
+  ).map(val => val.textContent!);
+}
+
+describe('Supervisions of an IED replacement', () => {
+  let doc: XMLDocument;
+
+  beforeEach(() => {
+    doc = replacementDoc();
+    addLgosTypes(doc);
+  });
+
+  it('supervises the control blocks the new IED subscribes to', () => {
+    addLgos(ied(doc, 'SubTemplate'), 2);
+    const plan = planIedReplacement(doc, ied(doc, 'SubTemplate'), [
+      ied(doc, 'Sub'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(supervised(ied(doc, 'Sub'))).to.deep.equal(['OldLD1/LLN0.GCB']);
+    expect(plan.reports[0].remapped).to.include(
+      'LGOS supervision of OldLD1/LLN0.GCB added'
+    );
+  });
+
+  it('removes supervisions of control blocks no longer subscribed', () => {
+    addLgos(ied(doc, 'SubTemplate'), 2, 'TemplateLD1/LLN0.GoCB');
+    const plan = planIedReplacement(doc, ied(doc, 'SubTemplate'), [
+      ied(doc, 'Sub'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(supervised(ied(doc, 'Sub'))).to.deep.equal(['OldLD1/LLN0.GCB']);
+    expect(plan.reports[0].remapped).to.include(
+      'LGOS supervision of TemplateLD1/LLN0.GoCB removed as it is no longer subscribed'
+    );
+  });
+
+  it('warns of supervisions beyond the maximum of the template', () => {
+    addLgos(ied(doc, 'SubTemplate'), 0);
+    const plan = planIedReplacement(doc, ied(doc, 'SubTemplate'), [
+      ied(doc, 'Sub'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(supervised(ied(doc, 'Sub'))).to.be.empty;
+    expect(plan.reports[0].warnings).to.include(
+      'LGOS supervision of OldLD1/LLN0.GCB is missing as the template supervises at most 0'
+    );
+  });
+
+  it('supervises with the data types of a template from another document', () => {
+    const icd = importDoc();
+    addLgosTypes(icd);
+    doc.querySelector('LNodeType[id="LGOS"]')!.remove();
+    doc.querySelector('DOType[id="ORG"]')!.remove();
+    addLgos(ied(icd, 'Imported'), 2);
+    const plan = planIedReplacement(doc, ied(icd, 'Imported'), [
+      ied(doc, 'Sub'),
+    ]);
+    handleEdit(plan.edits);
+
+    expect(supervised(ied(doc, 'Sub'))).to.deep.equal(['OldLD1/LLN0.GCB']);
+    expect(
+      plan.reports[0].warnings.filter(warning => warning.startsWith('LGOS'))
+    ).to.be.empty;
+    expect(doc.querySelector('LNodeType[id="LGOS"]')).to.exist;
+  });
+
+  it('supervises control blocks of IEDs replaced within the same job', () => {
+    addLgos(ied(doc, 'SubTemplate'), 2);
+    const pairings: ReplacementPairing[] = [
+      { templateIed: ied(doc, 'Template'), targetIeds: [ied(doc, 'Old')] },
+      { templateIed: ied(doc, 'SubTemplate'), targetIeds: [ied(doc, 'Sub')] },
+    ];
+
+    [pairings, [...pairings].reverse()].forEach(job => {
+      const jobDoc = <XMLDocument>doc.cloneNode(true);
+      const plan = planReplacementJob(
+        jobDoc,
+        job.map(({ templateIed, targetIeds }) => ({
+          templateIed: ied(jobDoc, templateIed.getAttribute('name')!),
+          targetIeds: targetIeds.map(target =>
+            ied(jobDoc, target.getAttribute('name')!)
+          ),
+        })),
+        { transfer: ['Inputs'] }
+      );
+      handleEdit(plan.edits);
+
+      expect(ied(jobDoc, 'Sub').querySelector('ExtRef')).to.have.attribute(
+        'srcCBName',
+        'GoCB'
+      );
+      expect(supervised(ied(jobDoc, 'Sub'))).to.deep.equal([
+        'OldLD1/LLN0.GoCB',
+      ]);
+    });
+  });
+});